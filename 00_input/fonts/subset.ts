@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import subsetFont from 'subset-font';
+import { loadConfig, takeConfigArg } from '../../shared/config';
+
+/**
+ * The bundled CJK fonts, each cut down to the characters the captions use
+ */
+const CJK_FONT_FILES = ['NotoSansJP-SemiBold.ttf', 'NotoSansKR-SemiBold.ttf', 'NotoSansSC-SemiBold.ttf', 'NotoSansTC-SemiBold.ttf'];
+
+/**
+ * The typographic family and subfamily names, which hb-subset drops by default
+ * but the fonts are registered with
+ */
+const PRESERVED_NAME_IDS = [16, 17];
+
+/**
+ * Collects the text of every translations file
+ */
+async function collectTranslationCharacters(translationsDir: string): Promise<string> {
+  const files = (await fs.readdir(translationsDir)).filter(file => file.endsWith('.json'));
+  const texts: string[] = [];
+  const collect = (value: unknown): void => {
+    if (typeof value === 'string') {
+      texts.push(value);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(collect);
+    }
+  };
+  for (const file of files) {
+    collect(JSON.parse(await fs.readFile(path.join(translationsDir, file), 'utf8')));
+  }
+  return texts.join('');
+}
+
+/**
+ * Cuts the full Noto Sans CJK fonts in sourceDir down to the characters used in the
+ * translations, and writes them next to this script
+ */
+async function subsetFonts(sourceDir: string, configPath?: string): Promise<void> {
+  const { paths } = await loadConfig(configPath);
+  const characters = Array.from(new Set(await collectTranslationCharacters(paths.translations))).join('');
+
+  for (const file of CJK_FONT_FILES) {
+    const font = await subsetFont(await fs.readFile(path.join(sourceDir, file)), characters, {
+      targetFormat: 'truetype',
+      preserveNameIds: PRESERVED_NAME_IDS
+    });
+    await fs.writeFile(path.join(__dirname, file), font);
+    console.log(`✅ ${file}: ${(font.length / 1024).toFixed(0)} KB`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+    console.log('Bundled CJK Font Subsetter');
+    console.log('');
+    console.log('Cuts the full Noto Sans JP, KR, SC and TC SemiBold fonts down to the characters used in the');
+    console.log('translations, and replaces the bundled fonts. Run it again whenever captions gain new characters.');
+    console.log('');
+    console.log('Usage:');
+    console.log('  tsx 00_input/fonts/subset.ts <dir>                   # Subset the full fonts in <dir>');
+    console.log('  tsx 00_input/fonts/subset.ts <dir> --config <path>   # Use a specific project config file');
+    console.log('');
+    console.log('<dir> must contain NotoSansJP-SemiBold.ttf, NotoSansKR-SemiBold.ttf, NotoSansSC-SemiBold.ttf');
+    console.log('and NotoSansTC-SemiBold.ttf, as downloaded from Google Fonts.');
+    return;
+  }
+
+  try {
+    const configPath = takeConfigArg(args);
+    await subsetFonts(path.resolve(args[0]), configPath);
+  } catch (error) {
+    console.error('❌ Font subsetting failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Export for use as a module
+export { subsetFonts };
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
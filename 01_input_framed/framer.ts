@@ -2,7 +2,13 @@ import sharp from 'sharp';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { readdir } from 'fs/promises';
-import { defaultFrameSettings, FrameSettings } from './settings';
+import { defaultFrameSettings, DEVICE_TYPES, FrameSettings, DeviceType, PathSettings, ProjectConfig, StatusBarSettings, getOrientation, loadConfig, resolveSettings, takeConfigArg } from '../shared/config';
+import { configureFonts, getFontFamilyList, getFontFiles } from '../shared/fonts';
+import { replaceStatusBar } from './statusBar';
+import { AUTO_FRAME_MODEL, FrameGeometry, FRAME_FINISH_NAMES, FRAME_MODEL_NAMES, FRAME_MODELS, GENERIC_FRAME_MODEL, FrameBox, FrameModel, getFrameGeometry, gradientStops, loadMockupManifest, MockupManifest, resolveFrameColors, resolveFrameModel } from '../shared/frames';
+import { printValidationReport, validateScreenshots } from '../shared/validation';
+import { isImageFile, loadImage } from '../shared/images';
+import { BuildCache, findCachedWork, hashInputs, recordWork } from '../shared/cache';
 
 // Sharp performance optimizations for 24-core system
 sharp.concurrency(2); // Limit internal thread pool to avoid oversubscription
@@ -11,11 +17,27 @@ sharp.cache(false); // Disable cache for better memory usage with large batches
 // Batch processing configuration
 const FRAMER_BATCH_SIZE = 32; // 32 parallel operations for 24-core system
 
+/**
+ * Frame settings for one run, applied over the device and locale settings; statusBar is merged field by field
+ */
+type FrameSettingsOverrides = Partial<Omit<FrameSettings, 'statusBar'>> & { statusBar?: Partial<StatusBarSettings> };
+
 interface FrameOptions {
   inputPath: string;
   outputPath?: string;
-  deviceType?: 'iphone' | 'ipad';
-  settings?: Partial<FrameSettings>;
+  deviceType?: DeviceType;
+  locale?: string;
+  settings?: FrameSettingsOverrides;
+  /** Build cache; when given, a screenshot whose inputs haven't changed isn't framed again */
+  cache?: BuildCache;
+  config?: ProjectConfig;
+}
+
+/**
+ * Applies the settings given for one run over the resolved device and locale frame settings
+ */
+function resolveFrameSettings(frame: FrameSettings, settings: FrameSettingsOverrides): FrameSettings {
+  return { ...frame, ...settings, statusBar: { ...frame.statusBar, ...settings.statusBar } };
 }
 
 /**
@@ -23,67 +45,79 @@ interface FrameOptions {
  */
 async function frameScreenshot(options: FrameOptions): Promise<string> {
   const { inputPath, deviceType = 'iphone', settings = {} } = options;
+  const config = options.config ?? await loadConfig();
+  const locale = options.locale ?? inferLocale(inputPath, config.paths.screenshots);
 
-  // Merge provided settings with defaults
-  const frameSettings: FrameSettings = { ...defaultFrameSettings, ...settings };
+  // Merge provided settings with the config's device and locale settings
+  const resolved = resolveSettings(config, deviceType, locale);
+  const frameSettings = resolveFrameSettings(resolved.frame, settings);
 
   // Generate output path if not provided
-  const outputPath = options.outputPath || generateOutputPath(inputPath);
+  const outputPath = options.outputPath || generateOutputPath(inputPath, config.paths);
+
+  // Skip screenshots whose image, frame settings, mockup and status bar fonts are unchanged
+  const { cache } = options;
+  const cacheTarget = path.relative(config.paths.framed, path.dirname(outputPath));
+  let cacheHash = '';
+  if (cache) {
+    const inputFiles = [inputPath];
+    if (frameSettings.mockup) {
+      const manifest = await loadMockupManifest(frameSettings.mockup);
+      inputFiles.push(frameSettings.mockup, manifest.image, ...(manifest.mask ? [manifest.mask] : []));
+    }
+    if (frameSettings.statusBar.enabled) {
+      inputFiles.push(...getFontFiles(resolved.fonts));
+    }
+    cacheHash = await hashInputs(inputFiles, { deviceType, frameSettings });
+    if (findCachedWork(cache, 'frame', cacheTarget, cacheHash)) {
+      console.log(`Up to date, skipping: ${inputPath}`);
+      return outputPath;
+    }
+  }
 
   try {
-    // Load the input screenshot with performance optimizations
-    const inputImage = sharp(inputPath, {
-      failOnError: false,
-      limitInputPixels: false
-    });
+    // Load the input screenshot upright and in sRGB, whether it's a PNG, JPEG, HEIC or WebP
+    let inputImage = await loadImage(inputPath);
     const inputMetadata = await inputImage.metadata();
 
     console.log(`Processing screenshot: ${inputPath}`);
     console.log(`Input dimensions: ${inputMetadata.width}x${inputMetadata.height}`);
 
-    // Create background and device bezels separately
-    const backgroundBuffer = await createDeviceBackground(inputMetadata.width!, inputMetadata.height!, deviceType, frameSettings);
-    const bezelsBuffer = await createDeviceBezels(inputMetadata.width!, inputMetadata.height!, deviceType, frameSettings);
-
-    // Apply border radius using a mask via Sharp compositing (avoids huge inline SVG data URIs)
-    let roundedScreenshot: Buffer;
-
-    if (frameSettings.imageBorderRadius > 0) {
-      // Create a simple SVG mask with rounded rectangle
-      const maskSvg = `
-        <svg width="${inputMetadata.width}" height="${inputMetadata.height}" xmlns="http://www.w3.org/2000/svg">
-          <rect x="0" y="0" width="100%" height="100%" rx="${frameSettings.imageBorderRadius}" ry="${frameSettings.imageBorderRadius}" fill="#ffffff"/>
-        </svg>
-      `;
-
-      // Apply mask using destination-in blend
-      roundedScreenshot = await inputImage
-        .composite([
-          { input: Buffer.from(maskSvg), blend: 'dest-in' }
-        ])
-        .png()
-        .toBuffer();
-    } else {
-      // No border radius, use original image
-      roundedScreenshot = await inputImage.png().toBuffer();
+    // A set with a configured orientation only takes screenshots of that orientation
+    const orientation = getOrientation(inputMetadata.width!, inputMetadata.height!);
+    if (frameSettings.orientation !== 'auto' && frameSettings.orientation !== orientation) {
+      throw new Error(`Screenshot is ${orientation} (${inputMetadata.width}x${inputMetadata.height}), but the frame orientation is set to ${frameSettings.orientation}: ${inputPath}`);
     }
 
-    // Layer: Background -> Screenshot -> Bezels
-    const framedImage = await sharp(backgroundBuffer)
-      .composite([
-        {
-          input: roundedScreenshot,
-          top: getScreenshotOffset(deviceType, inputMetadata.width!, inputMetadata.height!, true, frameSettings),
-          left: getScreenshotOffset(deviceType, inputMetadata.width!, inputMetadata.height!, false, frameSettings)
-        },
-        {
-          input: bezelsBuffer,
-          top: 0,
-          left: 0
-        }
-      ])
-      .png()
-      .toBuffer();
+    // Replace the status bar before framing; iOS hides it on landscape iPhones
+    if (frameSettings.statusBar.enabled) {
+      if (deviceType === 'iphone' && orientation === 'landscape') {
+        console.log('Status bar: left as is (hidden on landscape iPhones)');
+      } else {
+        // Sized for the frame model, or the model matching the resolution when the frame is generic
+        const modelSetting = frameSettings.model === GENERIC_FRAME_MODEL ? AUTO_FRAME_MODEL : frameSettings.model;
+        const statusBarModel = resolveFrameModel(modelSetting, deviceType, Math.min(inputMetadata.width!, inputMetadata.height!), Math.max(inputMetadata.width!, inputMetadata.height!))
+          ?? FRAME_MODELS.find(model => model.deviceType === deviceType)!;
+        configureFonts(config);
+        inputImage = sharp(await replaceStatusBar(
+          await inputImage.png().toBuffer(),
+          statusBarModel,
+          frameSettings.statusBar,
+          { family: getFontFamilyList(resolved.fonts), weight: resolved.fonts.weight }
+        ));
+        console.log(`Status bar: replaced (${statusBarModel.label} layout, ${frameSettings.statusBar.time})`);
+      }
+    }
+
+    // A mockup image replaces the drawn frame entirely
+    let framedImage: Buffer;
+    if (frameSettings.mockup) {
+      const manifest = await loadMockupManifest(frameSettings.mockup);
+      console.log(`Frame mockup: ${path.basename(manifest.image)}`);
+      framedImage = await createMockupFrame(inputImage, manifest);
+    } else {
+      framedImage = await createDrawnFrame(inputImage, inputMetadata.width!, inputMetadata.height!, deviceType, frameSettings);
+    }
 
     // Ensure output directory exists
     await fs.mkdir(path.dirname(outputPath), { recursive: true });
@@ -92,6 +126,9 @@ async function frameScreenshot(options: FrameOptions): Promise<string> {
     await sharp(framedImage).toFile(outputPath);
 
     console.log(`Framed screenshot saved to: ${outputPath}`);
+    if (cache) {
+      recordWork(cache, 'frame', cacheTarget, cacheHash, [outputPath]);
+    }
     return outputPath;
 
   } catch (error) {
@@ -112,13 +149,14 @@ async function createDeviceBackground(screenshotWidth: number, screenshotHeight:
   const screenX = margin;
   const screenY = margin;
 
+  const colors = resolveFrameColors(settings);
+
   // Create background and screen bed (no outer device yet)
   const backgroundSvg = `
     <svg width="${frameWidth}" height="${frameHeight}" xmlns="http://www.w3.org/2000/svg">
       <defs>
         <linearGradient id="screenGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-          <stop offset="0%" style="stop-color:#000000;stop-opacity:1" />
-          <stop offset="100%" style="stop-color:#0c0c0c;stop-opacity:1" />
+          ${gradientStops(colors.screen)}
         </linearGradient>
       </defs>
 
@@ -147,6 +185,8 @@ async function createDeviceBezels(screenshotWidth: number, screenshotHeight: num
   const screenX = margin;
   const screenY = margin;
 
+  const colors = resolveFrameColors(settings);
+
   // Create device bezels that will sit on top
   const bezelsSvg = `
     <svg width="${frameWidth}" height="${frameHeight}" xmlns="http://www.w3.org/2000/svg">
@@ -155,12 +195,10 @@ async function createDeviceBezels(screenshotWidth: number, screenshotHeight: num
           <feDropShadow dx="${settings.shadow.dx}" dy="${settings.shadow.dy}" stdDeviation="${settings.shadow.stdDeviation}" flood-color="rgba(0,0,0,${settings.shadow.opacity})"/>
         </filter>
         <linearGradient id="bodyGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-          <stop offset="0%" style="stop-color:#1b1b1b;stop-opacity:1" />
-          <stop offset="100%" style="stop-color:#0b0b0b;stop-opacity:1" />
+          ${gradientStops(colors.body)}
         </linearGradient>
         <linearGradient id="rimGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-          <stop offset="0%" style="stop-color:rgba(255,255,255,0.35);stop-opacity:1" />
-          <stop offset="100%" style="stop-color:rgba(255,255,255,0.05);stop-opacity:1" />
+          ${gradientStops(colors.rim)}
         </linearGradient>
         <!-- Mask to cut out the screen area from the device body so bezels only surround the edges -->
         <mask id="bezelMask">
@@ -188,6 +226,355 @@ async function createDeviceBezels(screenshotWidth: number, screenshotHeight: num
   return Buffer.from(bezelsSvg);
 }
 
+/**
+ * Frames a screenshot with a drawn frame: a frame model, or the generic rounded rectangle
+ */
+async function createDrawnFrame(inputImage: sharp.Sharp, screenshotWidth: number, screenshotHeight: number, deviceType: DeviceType, frameSettings: FrameSettings): Promise<Buffer> {
+  // Models are matched on their upright (portrait) resolution
+  const landscape = screenshotWidth > screenshotHeight;
+  const model = resolveFrameModel(frameSettings.model, deviceType, Math.min(screenshotWidth, screenshotHeight), Math.max(screenshotWidth, screenshotHeight));
+  console.log(`Frame model: ${model ? model.label : 'generic'}${landscape ? ' (landscape)' : ''}`);
+
+  if (model && landscape) {
+    return createLandscapeModelFrame(inputImage, screenshotWidth, screenshotHeight, model, frameSettings);
+  }
+
+  if (model) {
+    const geometry = getFrameGeometry(model, screenshotWidth, screenshotHeight, getShadowReach(frameSettings));
+    return composeFrame(
+      inputImage,
+      screenshotWidth,
+      screenshotHeight,
+      createModelBackground(geometry, frameSettings),
+      createModelBezels(geometry, frameSettings),
+      geometry.screen
+    );
+  }
+
+  return composeFrame(
+    inputImage,
+    screenshotWidth,
+    screenshotHeight,
+    await createDeviceBackground(screenshotWidth, screenshotHeight, deviceType, frameSettings),
+    await createDeviceBezels(screenshotWidth, screenshotHeight, deviceType, frameSettings),
+    {
+      x: getScreenshotOffset(deviceType, screenshotWidth, screenshotHeight, false, frameSettings),
+      y: getScreenshotOffset(deviceType, screenshotWidth, screenshotHeight, true, frameSettings),
+      radius: frameSettings.imageBorderRadius
+    }
+  );
+}
+
+/**
+ * Frames a landscape screenshot with a model. The screenshot is framed turned upright, then
+ * the device is turned on its side with the camera on the left. The shadow offset is turned
+ * the other way first so it still falls the same way, and the home indicator is drawn
+ * afterwards along the bottom of the landscape screen.
+ */
+async function createLandscapeModelFrame(inputImage: sharp.Sharp, screenshotWidth: number, screenshotHeight: number, model: FrameModel, settings: FrameSettings): Promise<Buffer> {
+  const upright = sharp(await inputImage.rotate(90).png().toBuffer());
+  const uprightSettings: FrameSettings = {
+    ...settings,
+    shadow: { ...settings.shadow, dx: -settings.shadow.dy, dy: settings.shadow.dx }
+  };
+  const geometry = getFrameGeometry(model, screenshotHeight, screenshotWidth, getShadowReach(settings));
+
+  const framed = await composeFrame(
+    upright,
+    screenshotHeight,
+    screenshotWidth,
+    createModelBackground(geometry, uprightSettings),
+    createModelBezels(geometry, uprightSettings, false),
+    geometry.screen
+  );
+  const rotated = await sharp(framed).rotate(-90).png().toBuffer();
+  if (!model.homeIndicator) {
+    return rotated;
+  }
+
+  // Turning the canvas 90° counter-clockwise moves (x, y) to (y, width - x)
+  const { screen } = geometry;
+  const landscapeScreen: FrameBox = {
+    x: screen.y,
+    y: geometry.width - screen.x - screen.width,
+    width: screen.height,
+    height: screen.width,
+    radius: screen.radius
+  };
+  const indicatorSvg = `
+    <svg width="${geometry.height}" height="${geometry.width}" xmlns="http://www.w3.org/2000/svg">
+      ${createHomeIndicator(landscapeScreen, geometry.scale, settings)}
+    </svg>
+  `;
+  return sharp(rotated)
+    .composite([{ input: Buffer.from(indicatorSvg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Layers a screenshot, rounded to the screen's corner radius, between a frame's background and bezels
+ */
+async function composeFrame(
+  inputImage: sharp.Sharp,
+  screenshotWidth: number,
+  screenshotHeight: number,
+  backgroundBuffer: Buffer,
+  bezelsBuffer: Buffer,
+  screen: Pick<FrameBox, 'x' | 'y' | 'radius'>
+): Promise<Buffer> {
+  // Apply border radius using a mask via Sharp compositing (avoids huge inline SVG data URIs)
+  let roundedScreenshot: Buffer;
+
+  if (screen.radius > 0) {
+    // Create a simple SVG mask with rounded rectangle
+    const maskSvg = `
+      <svg width="${screenshotWidth}" height="${screenshotHeight}" xmlns="http://www.w3.org/2000/svg">
+        <rect x="0" y="0" width="100%" height="100%" rx="${screen.radius}" ry="${screen.radius}" fill="#ffffff"/>
+      </svg>
+    `;
+
+    // Apply mask using destination-in blend
+    roundedScreenshot = await inputImage
+      .composite([
+        { input: Buffer.from(maskSvg), blend: 'dest-in' }
+      ])
+      .png()
+      .toBuffer();
+  } else {
+    // No border radius, use original image
+    roundedScreenshot = await inputImage.png().toBuffer();
+  }
+
+  // Layer: Background -> Screenshot -> Bezels
+  return sharp(backgroundBuffer)
+    .composite([
+      {
+        input: roundedScreenshot,
+        top: screen.y,
+        left: screen.x
+      },
+      {
+        input: bezelsBuffer,
+        top: 0,
+        left: 0
+      }
+    ])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Frames a screenshot with a PNG mockup: the screenshot is scaled to cover the manifest's
+ * screen rect and masked to its shape, then the mockup image is laid on top
+ */
+async function createMockupFrame(inputImage: sharp.Sharp, manifest: MockupManifest): Promise<Buffer> {
+  const frameMetadata = await sharp(manifest.image).metadata();
+  const frameWidth = frameMetadata.width!;
+  const frameHeight = frameMetadata.height!;
+  const { screen } = manifest;
+  if (screen.x + screen.width > frameWidth || screen.y + screen.height > frameHeight) {
+    throw new Error(`Mockup screen rect ${screen.width}x${screen.height}+${screen.x}+${screen.y} lies outside the ${frameWidth}x${frameHeight} frame image ${manifest.image}`);
+  }
+
+  const screenshot = inputImage.resize(screen.width, screen.height, { fit: 'cover' });
+  let maskedScreenshot: Buffer;
+
+  if (manifest.mask) {
+    // Take the screen-sized part of the mask, using its alpha or else its brightness
+    let mask = sharp(manifest.mask);
+    const maskMetadata = await mask.metadata();
+    if (maskMetadata.width === frameWidth && maskMetadata.height === frameHeight) {
+      mask = mask.extract({ left: screen.x, top: screen.y, width: screen.width, height: screen.height });
+    } else if (maskMetadata.width !== screen.width || maskMetadata.height !== screen.height) {
+      throw new Error(`Mockup mask ${manifest.mask} is ${maskMetadata.width}x${maskMetadata.height}; expected the screen (${screen.width}x${screen.height}) or frame image (${frameWidth}x${frameHeight}) size`);
+    }
+    const alpha = await (maskMetadata.hasAlpha ? mask.extractChannel('alpha') : mask.greyscale())
+      .raw()
+      .toBuffer();
+
+    maskedScreenshot = await sharp(await screenshot.removeAlpha().png().toBuffer())
+      .joinChannel(alpha, { raw: { width: screen.width, height: screen.height, channels: 1 } })
+      .png()
+      .toBuffer();
+  } else if (manifest.cornerRadius) {
+    const maskSvg = `
+      <svg width="${screen.width}" height="${screen.height}" xmlns="http://www.w3.org/2000/svg">
+        <rect x="0" y="0" width="100%" height="100%" rx="${manifest.cornerRadius}" ry="${manifest.cornerRadius}" fill="#ffffff"/>
+      </svg>
+    `;
+    maskedScreenshot = await screenshot
+      .composite([{ input: Buffer.from(maskSvg), blend: 'dest-in' }])
+      .png()
+      .toBuffer();
+  } else {
+    maskedScreenshot = await screenshot.png().toBuffer();
+  }
+
+  // Layer: Screenshot -> Mockup image
+  const framed = await sharp({
+    create: { width: frameWidth, height: frameHeight, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+  })
+    .composite([
+      { input: maskedScreenshot, top: screen.y, left: screen.x },
+      { input: manifest.image, top: 0, left: 0 }
+    ])
+    .png()
+    .toBuffer();
+
+  if (!manifest.canvas) {
+    return framed;
+  }
+  return sharp(framed)
+    .resize(manifest.canvas.width, manifest.canvas.height, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * How far the drop shadow reaches past the device body
+ */
+function getShadowReach(settings: FrameSettings): number {
+  const { dx, dy, stdDeviation } = settings.shadow;
+  return stdDeviation * 3 + Math.max(Math.abs(dx), Math.abs(dy));
+}
+
+/**
+ * Creates the screen bed for a frame model
+ */
+function createModelBackground(geometry: FrameGeometry, settings: FrameSettings): Buffer {
+  const { screen } = geometry;
+  const colors = resolveFrameColors(settings);
+
+  const backgroundSvg = `
+    <svg width="${geometry.width}" height="${geometry.height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="screenGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+          ${gradientStops(colors.screen)}
+        </linearGradient>
+      </defs>
+      <rect x="${screen.x}" y="${screen.y}" width="${screen.width}" height="${screen.height}"
+            rx="${screen.radius}" ry="${screen.radius}" fill="url(#screenGradient)"/>
+    </svg>
+  `;
+
+  return Buffer.from(backgroundSvg);
+}
+
+/**
+ * Creates the body, buttons and camera cutout of a frame model, to sit on top of the screenshot
+ */
+function createModelBezels(geometry: FrameGeometry, settings: FrameSettings, homeIndicator: boolean = geometry.model.homeIndicator): Buffer {
+  const { model, scale, body, screen } = geometry;
+  const colors = resolveFrameColors(settings);
+  const bandWidth = 1.5 * scale;
+  const depth = model.buttonDepth * scale;
+  const centerX = body.x + body.width / 2;
+
+  // Buttons are drawn first and tuck under the body, so only the part standing out shows
+  const buttons = model.buttons.map(button => {
+    const offset = button.offset * scale;
+    const length = button.length * scale;
+    if (button.edge === 'top') {
+      return `<rect x="${body.x + offset}" y="${body.y - depth}" width="${length}" height="${depth * 2}" rx="${depth}" ry="${depth}" fill="url(#buttonGradient)"/>`;
+    }
+    const x = button.edge === 'left' ? body.x - depth : body.x + body.width - depth;
+    return `<rect x="${x}" y="${body.y + offset}" width="${depth * 2}" height="${length}" rx="${depth}" ry="${depth}" fill="url(#buttonGradient)"/>`;
+  }).join('\n      ');
+
+  let cutout = '';
+  const { cutout: shape } = model;
+  if (shape.type === 'dynamic-island') {
+    const width = shape.width * scale;
+    const height = shape.height * scale;
+    cutout = `<rect x="${centerX - width / 2}" y="${screen.y + shape.top * scale}" width="${width}" height="${height}" rx="${height / 2}" ry="${height / 2}" fill="#000000"/>`;
+  } else if (shape.type === 'notch') {
+    const left = centerX - (shape.width * scale) / 2;
+    const right = centerX + (shape.width * scale) / 2;
+    const bottom = screen.y + shape.height * scale;
+    const radius = shape.radius * scale;
+    const shoulder = 6 * scale;
+    cutout = `<path d="M ${left - shoulder} ${screen.y - 1} Q ${left} ${screen.y} ${left} ${screen.y + shoulder} V ${bottom - radius} Q ${left} ${bottom} ${left + radius} ${bottom} H ${right - radius} Q ${right} ${bottom} ${right} ${bottom - radius} V ${screen.y + shoulder} Q ${right} ${screen.y} ${right + shoulder} ${screen.y - 1} Z" fill="#000000"/>`;
+  } else if (shape.type === 'camera') {
+    const radius = (shape.diameter * scale) / 2;
+    const cx = shape.edge === 'top' ? centerX + (shape.offset ?? 0) * scale : screen.x + screen.width + (body.x + body.width - screen.x - screen.width) / 2;
+    const cy = shape.edge === 'top' ? body.y + (screen.y - body.y) / 2 : body.y + body.height / 2 + (shape.offset ?? 0) * scale;
+    cutout = `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="#101522"/>
+      <circle cx="${cx - radius * 0.3}" cy="${cy - radius * 0.3}" r="${radius * 0.3}" fill="rgba(120,140,200,0.35)"/>`;
+  }
+
+  const speaker = model.speaker
+    ? `<rect x="${centerX - (model.speaker.width * scale) / 2}" y="${body.y + (screen.y - body.y) / 2 - (model.speaker.height * scale) / 2}" width="${model.speaker.width * scale}" height="${model.speaker.height * scale}" rx="${(model.speaker.height * scale) / 2}" fill="#1c1c1e"/>`
+    : '';
+
+  const homeButton = model.homeButton
+    ? `<circle cx="${centerX}" cy="${screen.y + screen.height + (body.y + body.height - screen.y - screen.height) / 2}" r="${(model.homeButton.diameter * scale) / 2}" fill="#0a0a0a" stroke="#3a3a3c" stroke-width="${1.5 * scale}"/>`
+    : '';
+
+  const indicator = homeIndicator ? createHomeIndicator(screen, scale, settings) : '';
+
+  const bezelsSvg = `
+    <svg width="${geometry.width}" height="${geometry.height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <filter id="shadow" filterUnits="userSpaceOnUse" x="0" y="0" width="${geometry.width}" height="${geometry.height}">
+          <feDropShadow dx="${settings.shadow.dx}" dy="${settings.shadow.dy}" stdDeviation="${settings.shadow.stdDeviation}" flood-color="rgba(0,0,0,${settings.shadow.opacity})"/>
+        </filter>
+        <linearGradient id="bodyGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+          ${gradientStops(colors.body)}
+        </linearGradient>
+        <linearGradient id="buttonGradient" x1="0%" y1="0%" x2="100%" y2="0%">
+          ${gradientStops(colors.body)}
+        </linearGradient>
+        <linearGradient id="rimGradient" x1="0%" y1="0%" x2="0%" y2="100%">
+          ${gradientStops(colors.rim)}
+        </linearGradient>
+        <!-- Mask to cut out the screen area from the device body so bezels only surround the edges -->
+        <mask id="bezelMask">
+          <rect width="100%" height="100%" fill="white"/>
+          <rect x="${screen.x}" y="${screen.y}" width="${screen.width}" height="${screen.height}"
+                rx="${screen.radius}" ry="${screen.radius}" fill="black"/>
+        </mask>
+      </defs>
+
+      <!-- Side and top buttons -->
+      ${buttons}
+
+      <!-- Metal band with drop shadow, screen area punched out -->
+      <rect x="${body.x}" y="${body.y}" width="${body.width}" height="${body.height}"
+            rx="${body.radius}" ry="${body.radius}"
+            fill="url(#bodyGradient)" filter="url(#shadow)" mask="url(#bezelMask)"/>
+
+      <!-- Black glass bezel inside the band -->
+      <rect x="${body.x + bandWidth}" y="${body.y + bandWidth}" width="${body.width - bandWidth * 2}" height="${body.height - bandWidth * 2}"
+            rx="${Math.max(0, body.radius - bandWidth)}" ry="${Math.max(0, body.radius - bandWidth)}"
+            fill="${colors.bezel}" mask="url(#bezelMask)"/>
+
+      <!-- Subtle outer rim highlight -->
+      <rect x="${body.x + 1}" y="${body.y + 1}" width="${body.width - 2}" height="${body.height - 2}"
+            rx="${Math.max(0, body.radius - 1)}" ry="${Math.max(0, body.radius - 1)}"
+            fill="none" stroke="url(#rimGradient)" stroke-width="2"/>
+
+      <!-- Camera, speaker and home button -->
+      ${cutout}
+      ${speaker}
+      ${homeButton}
+
+      <!-- Home indicator -->
+      ${indicator}
+    </svg>
+  `;
+
+  return Buffer.from(bezelsSvg);
+}
+
+/**
+ * Draws the home indicator bar centred near the bottom edge of the screen
+ */
+function createHomeIndicator(screen: FrameBox, scale: number, settings: FrameSettings): string {
+  const { homeIndicator } = settings;
+  return `<rect x="${screen.x + screen.width / 2 - homeIndicator.width / 2}" y="${screen.y + screen.height - homeIndicator.height - 8 * scale}" width="${homeIndicator.width}" height="${homeIndicator.height}" rx="${homeIndicator.borderRadius}" ry="${homeIndicator.borderRadius}" fill="#ffffff" opacity="${homeIndicator.opacity}"/>`;
+}
+
 /**
  * Calculates the offset for positioning the screenshot on the frame
  */
@@ -199,10 +586,10 @@ function getScreenshotOffset(deviceType: string, screenshotWidth: number, screen
 }
 
 /**
- * Recursively scans a directory for PNG files
+ * Recursively scans a directory for screenshots (PNG, JPEG, HEIC or WebP)
  */
-async function findPngFiles(dirPath: string): Promise<string[]> {
-  const pngFiles: string[] = [];
+async function findImageFiles(dirPath: string): Promise<string[]> {
+  const imageFiles: string[] = [];
 
   async function scanDirectory(currentPath: string): Promise<void> {
     try {
@@ -216,8 +603,8 @@ async function findPngFiles(dirPath: string): Promise<string[]> {
           if (entry.name !== 'output') {
             await scanDirectory(fullPath);
           }
-        } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.png')) {
-          pngFiles.push(fullPath);
+        } else if (entry.isFile() && isImageFile(entry.name)) {
+          imageFiles.push(fullPath);
         }
       }
     } catch (error) {
@@ -226,22 +613,37 @@ async function findPngFiles(dirPath: string): Promise<string[]> {
   }
 
   await scanDirectory(dirPath);
-  return pngFiles;
+  return imageFiles;
+}
+
+/**
+ * Infers the locale from a path laid out as [screenshots]/[device]/[locale]/slot_N/file.png
+ */
+function inferLocale(inputPath: string, screenshotsPath: string): string | undefined {
+  const relativePath = path.relative(screenshotsPath, path.resolve(inputPath));
+  const pathParts = relativePath.split(path.sep);
+  return !relativePath.startsWith('..') && pathParts.length >= 3 ? pathParts[1] : undefined;
 }
 
 /**
  * Generates an output path based on the input path, maintaining directory structure
  */
-function generateOutputPath(inputPath: string): string {
-  // Find the 'screenshots' directory in the path and replace it with 'framed_screenshots'
+function generateOutputPath(inputPath: string, paths: Pick<PathSettings, 'screenshots' | 'framed'>): string {
+  // Inputs inside the configured screenshots directory mirror its structure under the framed directory
+  const relativeToScreenshots = path.relative(paths.screenshots, path.resolve(inputPath));
+  if (!relativeToScreenshots.startsWith('..') && !path.isAbsolute(relativeToScreenshots)) {
+    return path.join(paths.framed, path.dirname(relativeToScreenshots), 'framed.png');
+  }
+
+  // Otherwise find a 'screenshots' directory in the path and replace it with the framed directory
   const inputPathNormalized = path.normalize(inputPath);
   const screenshotsIndex = inputPathNormalized.indexOf('screenshots');
 
   if (screenshotsIndex !== -1) {
     // Extract the path from 'screenshots' onwards
     const relativePath = inputPathNormalized.substring(screenshotsIndex + 'screenshots'.length);
-    // Construct new path with 'framed_screenshots' - relative to the framer.ts directory
-    const outputPath = path.join(__dirname, 'framed_screenshots', relativePath);
+    // Construct new path under the framed directory
+    const outputPath = path.join(paths.framed, relativePath);
     // Get the directory containing the screenshot
     const outputDir = path.dirname(outputPath);
     // Always save as 'framed.png'
@@ -250,7 +652,7 @@ function generateOutputPath(inputPath: string): string {
 
   // Fallback for paths that don't contain 'screenshots'
   const inputDir = path.dirname(inputPath);
-  const outputDir = path.join(__dirname, 'framed_screenshots', path.basename(inputDir));
+  const outputDir = path.join(paths.framed, path.basename(inputDir));
   return path.join(outputDir, 'framed.png');
 }
 
@@ -260,6 +662,15 @@ function generateOutputPath(inputPath: string): string {
 async function main() {
   const args = process.argv.slice(2);
 
+  // Load the project config (optionally from --config <path>)
+  let config: ProjectConfig;
+  try {
+    config = await loadConfig(takeConfigArg(args));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   // Check for locale argument
   let targetLocale: string | undefined;
   const localeIndex = args.indexOf('--locale');
@@ -268,24 +679,73 @@ async function main() {
     args.splice(localeIndex, 2); // Remove the --locale and its value from args
   }
 
+  // Check for a frame model argument, overriding the config's frame.model
+  const settings: FrameSettingsOverrides = {};
+  const modelIndex = args.indexOf('--model');
+  if (modelIndex !== -1 && args[modelIndex + 1]) {
+    const model = args[modelIndex + 1];
+    if (![AUTO_FRAME_MODEL, GENERIC_FRAME_MODEL, ...FRAME_MODEL_NAMES].includes(model)) {
+      console.error(`❌ Unknown frame model "${model}". Run with --list-models to see the available models.`);
+      process.exit(1);
+    }
+    settings.model = model;
+    args.splice(modelIndex, 2);
+  }
+
+  const finishIndex = args.indexOf('--finish');
+  if (finishIndex !== -1 && args[finishIndex + 1]) {
+    const finish = args[finishIndex + 1];
+    if (!FRAME_FINISH_NAMES.includes(finish)) {
+      console.error(`❌ Unknown frame finish "${finish}" (expected one of: ${FRAME_FINISH_NAMES.join(', ')})`);
+      process.exit(1);
+    }
+    settings.finish = finish;
+    args.splice(finishIndex, 2);
+  }
+
+  // --status-bar turns on the status bar replacement for this run, even where a device or locale turns it off
+  const statusBarIndex = args.indexOf('--status-bar');
+  if (statusBarIndex !== -1) {
+    settings.statusBar = { enabled: true };
+    args.splice(statusBarIndex, 1);
+  }
+
+  // --skip-validation frames a batch even when the screenshot validation finds errors
+  const skipValidationIndex = args.indexOf('--skip-validation');
+  const skipValidation = skipValidationIndex !== -1;
+  if (skipValidation) {
+    args.splice(skipValidationIndex, 1);
+  }
+
+  if (args[0] === '--list-models') {
+    console.log('Frame models:');
+    FRAME_MODELS.forEach(model => {
+      const resolutions = model.resolutions.map(([width, height]) => `${width}x${height}`).join(', ');
+      console.log(`  ${model.name.padEnd(20)} ${model.label} (${model.deviceType}; ${resolutions})`);
+    });
+    console.log(`  ${AUTO_FRAME_MODEL.padEnd(20)} Pick a model from the screenshot resolution`);
+    console.log(`  ${GENERIC_FRAME_MODEL.padEnd(20)} Rounded rectangle from the frame settings`);
+    return;
+  }
+
   if (args.length === 0) {
     // No arguments provided - scan and process all screenshots (or filter by locale)
     const localeFilter = targetLocale ? ` for locale '${targetLocale}'` : '';
-    console.log(`No input file specified. Scanning 00_input/screenshots/${localeFilter} for PNG files...`);
+    console.log(`No input file specified. Scanning 00_input/screenshots/${localeFilter} for screenshots...`);
 
     try {
-      const screenshotsDir = path.resolve(__dirname, '../00_input/screenshots');
-      const pngFiles = await findPngFiles(screenshotsDir);
+      const screenshotsDir = config.paths.screenshots;
+      const imageFiles = await findImageFiles(screenshotsDir);
 
-      if (pngFiles.length === 0) {
-        console.log(`No PNG files found in screenshots directory: ${screenshotsDir}`);
+      if (imageFiles.length === 0) {
+        console.log(`No screenshots found in screenshots directory: ${screenshotsDir}`);
         process.exit(0);
       }
 
       // Filter files by locale if specified
-      let filteredFiles = pngFiles;
+      let filteredFiles = imageFiles;
       if (targetLocale) {
-        filteredFiles = pngFiles.filter(file => {
+        filteredFiles = imageFiles.filter(file => {
           const relativePath = path.relative(screenshotsDir, file);
           const pathParts = relativePath.split(path.sep);
           const fileLocale = pathParts[1]; // iphone/locale/slot_1/file.png
@@ -293,7 +753,7 @@ async function main() {
         });
 
         if (filteredFiles.length === 0) {
-          console.log(`No PNG files found for locale '${targetLocale}' in: ${screenshotsDir}`);
+          console.log(`No screenshots found for locale '${targetLocale}' in: ${screenshotsDir}`);
           process.exit(0);
         }
       }
@@ -307,12 +767,24 @@ async function main() {
         localeCounts[locale] = (localeCounts[locale] || 0) + 1;
       });
 
-      console.log(`Found ${filteredFiles.length} PNG file(s) across ${Object.keys(localeCounts).length} locale(s):`);
+      console.log(`Found ${filteredFiles.length} screenshot(s) across ${Object.keys(localeCounts).length} locale(s):`);
       Object.entries(localeCounts).forEach(([locale, count]) => {
         console.log(`  - ${locale}: ${count} file(s)`);
       });
       console.log('');
 
+      // Report every input problem before anything is rendered
+      const report = await validateScreenshots(config, DEVICE_TYPES, targetLocale ? [targetLocale] : undefined);
+      printValidationReport(report);
+      console.log('');
+      if (report.issues.some(issue => issue.severity === 'error')) {
+        if (!skipValidation) {
+          console.error('❌ Screenshot validation failed. Fix the errors above or pass --skip-validation to frame anyway.');
+          process.exit(1);
+        }
+        console.log('⚠️  Framing anyway (--skip-validation)\n');
+      }
+
       // PARALLEL PROCESSING IMPLEMENTATION
       let processed = 0;
       let failed = 0;
@@ -328,7 +800,9 @@ async function main() {
             console.log(`[${globalIndex}/${filteredFiles.length}] Processing: ${path.basename(inputPath)}`);
             await frameScreenshot({
               inputPath,
-              deviceType: path.basename(path.dirname(path.dirname(path.dirname(inputPath)))) === 'ipad' ? 'ipad' : 'iphone'
+              deviceType: path.basename(path.dirname(path.dirname(path.dirname(inputPath)))) === 'ipad' ? 'ipad' : 'iphone',
+              settings,
+              config
             });
             return { success: true, inputPath };
           } catch (error) {
@@ -364,15 +838,25 @@ async function main() {
     console.log('App Store Screenshot Framer');
     console.log('');
     console.log('Usage:');
-    console.log('  tsx 01_input_framed/framer.ts                           # Process all PNG files in 00_input/screenshots/');
-    console.log('  tsx 01_input_framed/framer.ts --locale <locale>         # Process PNG files for specific locale');
-    console.log('  tsx 01_input_framed/framer.ts <input-file>              # Process specific PNG file');
+    console.log('  tsx 01_input_framed/framer.ts                           # Process all screenshots in 00_input/screenshots/');
+    console.log('  tsx 01_input_framed/framer.ts --locale <locale>         # Process screenshots for specific locale');
+    console.log('  tsx 01_input_framed/framer.ts <input-file>              # Process specific screenshot');
+    console.log('  tsx 01_input_framed/framer.ts --config <path>           # Use a specific project config file');
+    console.log('  tsx 01_input_framed/framer.ts --model <name>            # Use a frame model (or "auto" / "generic")');
+    console.log('  tsx 01_input_framed/framer.ts --list-models             # List the frame models');
+    console.log('  tsx 01_input_framed/framer.ts --status-bar              # Replace the status bar with a clean one (9:41, full battery)');
+    console.log(`  tsx 01_input_framed/framer.ts --finish <name>           # Use a frame finish (${FRAME_FINISH_NAMES.join(', ')})`);
+    console.log('  tsx 01_input_framed/framer.ts --skip-validation         # Frame even if screenshot validation fails');
     console.log('  tsx 01_input_framed/framer.ts --help                    # Show this help');
     console.log('');
     console.log('The tool automatically processes screenshots for all available locales');
     console.log('found in 00_input/screenshots/iphone/[locale]/ directories.');
     console.log('');
-    console.log('Settings can be customized in 01_input_framed/settings.ts:');
+    console.log('Settings can be customized in the "frame" section of screenshots.config.json,');
+    console.log('with per-device and per-locale overrides under "devices" and "locales":');
+    console.log('  - Frame model (picked from the screenshot resolution by default)');
+    console.log('  - Frame finish and custom body, rim and screen bed colours');
+    console.log('  - Status bar replacement (time, battery, signal, Wi-Fi and colour)');
     console.log('  - Border radius for images and frames');
     console.log('  - Frame padding and screenshot positioning');
     console.log('  - Home indicator dimensions and styling');
@@ -395,7 +879,9 @@ async function main() {
       await frameScreenshot({
         inputPath,
         outputPath,
-        deviceType: 'iphone'
+        deviceType: 'iphone',
+        settings,
+        config
       });
       console.log('Framing completed successfully!');
     } catch (error) {
@@ -406,7 +892,7 @@ async function main() {
 }
 
 // Export for use as a module
-export { frameScreenshot };
+export { frameScreenshot, findImageFiles, getScreenshotOffset, generateOutputPath, resolveFrameSettings, FRAMER_BATCH_SIZE };
 
 // Run if called directly
 if (require.main === module) {
@@ -0,0 +1,164 @@
+import sharp from 'sharp';
+import { StatusBarSettings } from '../shared/config';
+import { FrameModel } from '../shared/frames';
+
+/**
+ * Font size (pt) the status bar icons are drawn for; they scale with the model's font size
+ */
+const ICON_FONT_SIZE = 17;
+
+/**
+ * Icon widths and the gap between them, in points at ICON_FONT_SIZE
+ */
+const SIGNAL_WIDTH = 16.5;
+const WIFI_WIDTH = 16.5;
+const BATTERY_WIDTH = 27.5;
+const ICON_GAP = 5;
+
+/**
+ * Font used for the status bar time
+ */
+export interface StatusBarFont {
+  /** CSS font-family list */
+  family: string;
+  weight: number;
+}
+
+/**
+ * Finds the status bar's background colour: the most common colour in the region,
+ * bucketed so anti-aliasing and compression noise don't split it up
+ */
+async function findBackgroundColor(image: sharp.Sharp, width: number, height: number): Promise<{ r: number; g: number; b: number }> {
+  const { data } = await image
+    .clone()
+    .extract({ left: 0, top: 0, width, height })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 3) {
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  let dominant = { count: 1, r: 0, g: 0, b: 0 };
+  for (const bucket of buckets.values()) {
+    if (bucket.count > dominant.count) {
+      dominant = bucket;
+    }
+  }
+  return {
+    r: Math.round(dominant.r / dominant.count),
+    g: Math.round(dominant.g / dominant.count),
+    b: Math.round(dominant.b / dominant.count)
+  };
+}
+
+/**
+ * Draws the cellular signal, Wi-Fi and battery icons from x = 0, vertically centred on y = 0
+ */
+function createStatusIcons(settings: StatusBarSettings, color: string): { svg: string; width: number } {
+  const parts: string[] = [];
+  let x = 0;
+
+  // Cellular signal: four bars of increasing height, unlit bars dimmed
+  for (let bar = 0; bar < 4; bar++) {
+    const barHeight = 4 + bar * 2.5;
+    const opacity = bar < settings.signal ? 1 : 0.3;
+    parts.push(`<rect x="${x + bar * 4.5}" y="${5.75 - barHeight}" width="3" height="${barHeight}" rx="0.8" fill="${color}" opacity="${opacity}"/>`);
+  }
+  x += SIGNAL_WIDTH + ICON_GAP;
+
+  // Wi-Fi: a dot and two arcs spreading up from it
+  if (settings.wifi) {
+    const cx = x + WIFI_WIDTH / 2;
+    const cy = 5;
+    parts.push(`<circle cx="${cx}" cy="${cy - 1.2}" r="1.6" fill="${color}"/>`);
+    for (const radius of [5.5, 9.8]) {
+      const dx = radius * Math.SQRT1_2;
+      parts.push(`<path d="M ${cx - dx} ${cy - dx} A ${radius} ${radius} 0 0 1 ${cx + dx} ${cy - dx}" fill="none" stroke="${color}" stroke-width="2.2" stroke-linecap="round"/>`);
+    }
+    x += WIFI_WIDTH + ICON_GAP;
+  }
+
+  // Battery: outline, level and terminal cap
+  const level = Math.max(0, Math.min(100, settings.battery)) / 100;
+  parts.push(`<rect x="${x + 0.5}" y="-5.75" width="24.5" height="11.5" rx="3.5" fill="none" stroke="${color}" stroke-opacity="0.4" stroke-width="1"/>`);
+  parts.push(`<rect x="${x + 2.5}" y="-3.75" width="${20.5 * level}" height="7.5" rx="2" fill="${color}"/>`);
+  parts.push(`<rect x="${x + 26}" y="-2" width="1.5" height="4" rx="0.75" fill="${color}" opacity="0.4"/>`);
+  x += BATTERY_WIDTH;
+
+  return { svg: parts.join('\n      '), width: x };
+}
+
+/**
+ * Paints over a screenshot's status bar with its background colour and draws a clean one
+ * sized for the device model: the configured time, signal, Wi-Fi and battery. With the "auto"
+ * colour, the text is black on light backgrounds and white on dark ones.
+ */
+export async function replaceStatusBar(input: Buffer, model: FrameModel, settings: StatusBarSettings, font: StatusBarFont): Promise<Buffer> {
+  const image = sharp(input);
+  const metadata = await image.metadata();
+  const width = metadata.width!;
+  const height = metadata.height!;
+
+  // Metrics are in points of the upright screen; landscape iPads keep the same bar height
+  const scale = Math.min(width, height) / model.screenWidth;
+  const { statusBar } = model;
+  const barHeight = Math.min(height, Math.round(statusBar.height * scale));
+  const centerY = statusBar.centerY * scale;
+  const fontSize = statusBar.fontSize * scale;
+  const iconScale = scale * (statusBar.fontSize / ICON_FONT_SIZE);
+
+  const background = await findBackgroundColor(image, width, barHeight);
+  const luminance = (0.2126 * background.r + 0.7152 * background.g + 0.0722 * background.b) / 255;
+  const color = settings.color === 'auto' ? (luminance > 0.6 ? '#000000' : '#ffffff') : settings.color;
+
+  const icons = createStatusIcons(settings, color);
+  const iconsWidth = icons.width * iconScale;
+  const margin = (statusBar.layout === 'split' ? 20 : 6) * scale;
+
+  // Where the time (by its anchor) and the icons (by their left edge) go
+  let timeX: number;
+  let timeAnchor = 'middle';
+  let iconsX: number;
+  if (statusBar.layout === 'ears') {
+    const cutoutWidth = model.cutout.type === 'dynamic-island' || model.cutout.type === 'notch' ? model.cutout.width : 0;
+    const earWidth = (width - cutoutWidth * scale) / 2;
+    timeX = earWidth / 2;
+    iconsX = width - earWidth / 2 - iconsWidth / 2;
+  } else if (statusBar.layout === 'centered') {
+    timeX = width / 2;
+    iconsX = width - margin - iconsWidth;
+  } else {
+    timeX = margin;
+    timeAnchor = 'start';
+    iconsX = width - margin - iconsWidth;
+  }
+
+  const statusBarSvg = `
+    <svg width="${width}" height="${barHeight}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="100%" height="100%" fill="rgb(${background.r},${background.g},${background.b})"/>
+      <text x="${timeX}" y="${centerY}" text-anchor="${timeAnchor}" dominant-baseline="central"
+            font-family="${font.family.replace(/"/g, '&quot;')}" font-weight="${font.weight}" font-size="${fontSize}" fill="${color}">${escapeXml(settings.time)}</text>
+      <g transform="translate(${iconsX} ${centerY}) scale(${iconScale})">
+      ${icons.svg}
+      </g>
+    </svg>
+  `;
+
+  return image
+    .composite([{ input: Buffer.from(statusBarSvg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -2,7 +2,12 @@ import sharp from 'sharp';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { readdir } from 'fs/promises';
-import { defaultSettings, CombineSettings } from './settings';
+import { CombineSettings, DeviceType, LayoutDirection, ProjectConfig, getOrientation, getOutputDevices, TitleStyle, TranslationStyle, loadConfig, resolveDirection, resolveSettings, resolveSlotStyles, takeConfigArg, validateTranslationStyle } from '../shared/config';
+import { FittedText, TextMeasurer, createTextMeasurer, findUncoveredCharacters, fitText } from '../shared/text';
+import { configureFonts, getFontFamilyList, getFontFiles } from '../shared/fonts';
+import { resolveSlotCount, findMissingSlots, formatSlots, parseSlotNumber } from '../shared/slots';
+import { loadImage } from '../shared/images';
+import { BuildCache, findCachedWork, hashInputs, recordWork } from '../shared/cache';
 
 // Sharp performance optimizations for 24-core system
 sharp.concurrency(2); // Limit internal thread pool to avoid oversubscription
@@ -11,30 +16,59 @@ sharp.cache(false); // Disable cache for better memory usage with large batches
 // Batch processing configuration
 const COMBINER_BATCH_SIZE = 12; // 12 parallel operations for memory-intensive compositing
 
-interface CombineOptions {
+interface CombineOptions extends Partial<CombineSettings> {
   backgroundPath?: string;
   framedScreenshotsPath?: string;
   outputPath?: string;
-  spacing?: number;
-  deviceType?: 'iphone' | 'ipad';
+  deviceType?: DeviceType;
   locale?: string;
+  slotCount?: number;
   titles?: string[];
-  titleFontSize?: number;
-  titleColor?: string;
-  titleShadowColor?: string;
-  titleShadowOffset?: number;
-  titleSpacing?: number;
-  centerInQuarters?: boolean;
-  iPhoneScaleFactor?: number;
-  iPadScaleFactor?: number;
+  /** Subtitles per slot, overriding the ones from the translations file; empty strings mean no subtitle */
+  subtitles?: string[];
+  config?: ProjectConfig;
+  /** Called for every title that had to be shrunk or truncated to fit */
+  onTitleFit?: (issue: TitleFitIssue) => void;
+  /** Build cache; when given, a set whose inputs haven't changed isn't combined again */
+  cache?: BuildCache;
 }
 
 /**
- * Gets all available locales from the translations directory
+ * One slot's caption: a headline and an optional smaller line below it
+ */
+interface Caption {
+  title: string;
+  subtitle?: string;
+}
+
+/**
+ * Font used to measure and render titles
+ */
+interface TitleFont {
+  measurer: TextMeasurer;
+  /** CSS font-family list, in the same order the measurer uses the font files */
+  family: string;
+  weight: number;
+}
+
+/**
+ * A title or subtitle that didn't fit at its configured font size
  */
-async function getAvailableLocales(): Promise<string[]> {
-  const translationsDir = path.resolve(__dirname, '../00_input/translations');
+interface TitleFitIssue {
+  deviceType: DeviceType;
+  locale: string;
+  slot: number;
+  line: 'title' | 'subtitle';
+  text: string;
+  fontSize: number;
+  fittedFontSize: number;
+  truncated: boolean;
+}
 
+/**
+ * Gets all available locales from the translations directory
+ */
+async function getAvailableLocales(translationsDir: string): Promise<string[]> {
   try {
     const entries = await readdir(translationsDir, { withFileTypes: true });
     return entries
@@ -49,197 +83,317 @@ async function getAvailableLocales(): Promise<string[]> {
 }
 
 /**
- * Loads titles from the translations file for the specified locale
+ * Reads one slot's entry from a translations file, which is either a title string
+ * or an object with a title and an optional subtitle. Problems are added to problems.
+ */
+function parseCaption(value: unknown, at: string, problems: string[]): Caption {
+  if (typeof value === 'string') {
+    return { title: value };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    problems.push(`${at}: expected a title string or { "title": ..., "subtitle": ... }, got ${JSON.stringify(value)}`);
+    return { title: '' };
+  }
+
+  const { title, subtitle, ...unknownKeys } = value as Record<string, unknown>;
+  if (typeof title !== 'string' || title.length === 0) {
+    problems.push(`${at}.title: expected a non-empty string, got ${JSON.stringify(title)}`);
+  }
+  if (subtitle !== undefined && typeof subtitle !== 'string') {
+    problems.push(`${at}.subtitle: expected a string, got ${JSON.stringify(subtitle)}`);
+  }
+  Object.keys(unknownKeys).forEach(key => problems.push(`${at}.${key}: unknown key (expected title or subtitle)`));
+  return { title: String(title ?? ''), subtitle: typeof subtitle === 'string' && subtitle ? subtitle : undefined };
+}
+
+/**
+ * Loads captions from the translations file for the specified locale, one per slot
  */
-async function loadTitles(locale: string): Promise<string[]> {
-  const translationsPath = path.resolve(__dirname, '../00_input/translations', `${locale}.json`);
+async function loadCaptions(locale: string, slotCount: number, translationsDir: string): Promise<Caption[]> {
+  const translationsPath = path.resolve(translationsDir, `${locale}.json`);
 
+  let translations: Record<string, unknown>;
   try {
     const translationsData = await fs.readFile(translationsPath, 'utf-8');
-    const translations = JSON.parse(translationsData);
-
-    // Extract titles in slot order
-    const titles: string[] = [];
-    for (let i = 1; i <= 4; i++) {
-      const slotKey = `slot_${i}`;
-      if (translations[slotKey]) {
-        titles.push(translations[slotKey]);
-      } else {
-        titles.push(`Screenshot ${i}`);
-      }
-    }
-
-    return titles;
+    translations = JSON.parse(translationsData);
   } catch (error) {
     console.warn(`Warning: Could not load translations from ${translationsPath}, using defaults:`, error);
     // Return default titles if translations file doesn't exist
-    return [
-      'Screenshot 1',
-      'Screenshot 2',
-      'Screenshot 3',
-      'Screenshot 4',
-    ];
+    return Array.from({ length: slotCount }, (_, i) => ({ title: `Screenshot ${i + 1}` }));
   }
+
+  // Extract captions in slot order
+  const problems: string[] = [];
+  const captions = Array.from({ length: slotCount }, (_, i) => {
+    const slotKey = `slot_${i + 1}`;
+    return translations[slotKey] ? parseCaption(translations[slotKey], slotKey, problems) : { title: `Screenshot ${i + 1}` };
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid caption in ${translationsPath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+  return captions;
 }
 
 /**
- * Generates an SVG buffer for a title text with shadow support.
- * Allows constraining to a maximum number of lines (1 or 2).
- * Returns both the buffer and the computed SVG height for precise placement.
+ * Loads the optional "style" entry from the translations file for the specified locale
  */
-function generateTitleSvg(
-  text: string,
-  fontSize: number,
-  color: string,
-  shadowColor: string,
-  shadowOffset: number,
-  width: number,
-  maxLines: 1 | 2 = 2
-): { buffer: Buffer; svgHeight: number } {
-  const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+async function loadTitleStyle(locale: string, translationsDir: string): Promise<TranslationStyle> {
+  const translationsPath = path.resolve(translationsDir, `${locale}.json`);
 
-  // Support manual line breaks via "\n" in translations
-  const manualParts = text.split(/\r?\n|\\n/).filter(Boolean);
-
-  // Split text into lines, constrained by maxLines
-  const maxCharsPerLine = Math.floor(width / (fontSize * 0.6));
-  let line1 = '';
-  let line2 = '';
-
-  if (manualParts.length > 1) {
-    line1 = escapeXml(manualParts[0].trim());
-    line2 = escapeXml(manualParts.slice(1).join(' ').trim());
-  } else {
-    const escapedText = escapeXml(text);
-    line1 = escapedText;
-    if (escapedText.length > maxCharsPerLine) {
-      const words = escapedText.split(' ');
-      let currentLine = '';
-      let breakIndex = 0;
-
-      for (let i = 0; i < words.length; i++) {
-        const testLine = currentLine + (currentLine ? ' ' : '') + words[i];
-        if (testLine.length > maxCharsPerLine && currentLine) {
-          breakIndex = i;
-          break;
-        }
-        currentLine = testLine;
-        breakIndex = i + 1;
-      }
+  let translations: { style?: unknown };
+  try {
+    translations = JSON.parse(await fs.readFile(translationsPath, 'utf-8'));
+  } catch {
+    // A missing or unreadable translations file is already reported by loadCaptions
+    return {};
+  }
 
-      if (breakIndex > 0 && breakIndex < words.length) {
-        line1 = words.slice(0, breakIndex).join(' ');
-        line2 = words.slice(breakIndex).join(' ');
-      }
-    }
+  if (translations.style === undefined) {
+    return {};
   }
 
-  // If constrained to a single line, drop any second line
-  if (maxLines === 1) {
-    line2 = '';
+  const problems = validateTranslationStyle(translations.style);
+  if (problems.length > 0) {
+    throw new Error(`Invalid title style in ${translationsPath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
   }
+  return translations.style as TranslationStyle;
+}
+
+/**
+ * Generates an SVG buffer for a slot's title and optional subtitle with shadow support.
+ * Text is measured with the same local fonts it is rendered with; the title and the subtitle are each
+ * wrapped to at most maxLines lines and shrunk down to their minimum font size (then truncated) if they don't fit.
+ * The text's base direction follows the layout direction, so mixed RTL/LTR captions are ordered correctly.
+ * With a banner, the caption is drawn on a translucent band filling the SVG width, inset by the banner padding.
+ * Returns the buffer, the computed SVG height for precise placement and how the text was fitted.
+ */
+function generateTitleSvg(
+  caption: Caption,
+  style: TitleStyle,
+  width: number,
+  maxLines: number,
+  font: TitleFont,
+  minFontSizes: { title: number; subtitle: number },
+  direction: LayoutDirection,
+  banner: boolean = false
+): { buffer: Buffer; svgHeight: number; fit: FittedText; subtitleFit?: FittedText } {
+  const { titleColor: color, titleShadowColor: shadowColor, titleShadowOffset: shadowOffset, subtitleColor } = style;
+  const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const bannerPadding = banner ? style.bannerPadding : 0;
+  const textWidth = Math.max(1, width - bannerPadding * 2);
+
+  // Wrap (and if needed shrink) the text so it fits within the title width
+  const fit = fitText(caption.title, font.measurer, { maxWidth: textWidth, maxLines, fontSize: style.titleFontSize, minFontSize: minFontSizes.title });
+  const subtitleFit = caption.subtitle
+    ? fitText(caption.subtitle, font.measurer, { maxWidth: textWidth, maxLines, fontSize: style.subtitleFontSize, minFontSize: minFontSizes.subtitle })
+    : undefined;
+  const fontSize = fit.fontSize;
+  const lines = fit.lines.map(escapeXml);
+  const subtitleLines = (subtitleFit?.lines ?? []).map(escapeXml);
 
   // Calculate height for the number of rendered lines, include symmetric padding for ascenders/descenders and shadow
   const lineHeight = fontSize * 1.2; // Line height for readability
-  const renderedLines = line2 ? 2 : 1;
-  const contentHeight = lineHeight * renderedLines;
-  const pad = Math.ceil(fontSize * 0.2) + Math.abs(shadowOffset);
+  const renderedLines = Math.max(1, lines.length);
+  const subtitleLineHeight = (subtitleFit?.fontSize ?? 0) * 1.2;
+  const subtitleTop = lineHeight * renderedLines + style.subtitleSpacing;
+  const contentHeight = subtitleFit ? subtitleTop + subtitleLineHeight * subtitleLines.length : lineHeight * renderedLines;
+  const pad = Math.ceil(fontSize * 0.2) + Math.abs(shadowOffset) + bannerPadding;
   const svgHeight = Math.ceil(contentHeight + pad * 2);
-  const isTwoLines = renderedLines === 2;
-  const textY1 = Math.ceil(pad + (isTwoLines ? lineHeight / 2 : contentHeight / 2));
-  const textY2 = textY1 + lineHeight;
+  const lineY = (index: number) => Math.ceil(pad + lineHeight / 2) + index * lineHeight;
+  const subtitleLineY = (index: number) => Math.ceil(pad + subtitleTop + subtitleLineHeight / 2) + index * subtitleLineHeight;
+
+  const textRows = [
+    ...lines.map((line, index) => ({ line, y: lineY(index), className: 'title' })),
+    ...subtitleLines.map((line, index) => ({ line, y: subtitleLineY(index), className: 'subtitle' }))
+  ];
 
   // Create shadow text elements (rendered first, so main text appears on top)
-  let shadowElements = `<text x="${width / 2 + shadowOffset}" y="${textY1 + shadowOffset}" class="title-shadow">${line1}</text>`;
-  if (line2) {
-    shadowElements += `<text x="${width / 2 + shadowOffset}" y="${textY2 + shadowOffset}" class="title-shadow">${line2}</text>`;
-  }
+  const shadowElements = textRows
+    .map(row => `<text x="${width / 2 + shadowOffset}" y="${row.y + shadowOffset}" class="${row.className} shadow">${row.line}</text>`)
+    .join('');
 
   // Create main text elements
-  let textElements = `<text x="${width / 2}" y="${textY1}" class="title-text">${line1}</text>`;
-  if (line2) {
-    textElements += `<text x="${width / 2}" y="${textY2}" class="title-text">${line2}</text>`;
-  }
+  const textElements = textRows
+    .map(row => `<text x="${width / 2}" y="${row.y}" class="${row.className}">${row.line}</text>`)
+    .join('');
 
   const svg = `
     <svg width="${width}" height="${svgHeight}" viewBox="0 0 ${width} ${svgHeight}" preserveAspectRatio="xMidYMin slice" xmlns="http://www.w3.org/2000/svg">
       <defs>
         <style>
-          @import url('https://fonts.googleapis.com/css2?family=Montserrat:wght@600&amp;display=swap');
-          .title-shadow {
-            font-family: 'Montserrat', sans-serif;
-            font-weight: 600;
-            font-size: ${fontSize}px;
-            fill: ${shadowColor};
+          text {
+            font-family: ${escapeXml(font.family)};
+            font-weight: ${font.weight};
+            direction: ${direction};
+            unicode-bidi: embed;
             text-anchor: middle;
             dominant-baseline: middle;
           }
-          .title-text {
-            font-family: 'Montserrat', sans-serif;
-            font-weight: 600;
+          .title {
             font-size: ${fontSize}px;
             fill: ${color};
-            text-anchor: middle;
-            dominant-baseline: middle;
+          }
+          .subtitle {
+            font-size: ${subtitleFit?.fontSize ?? 0}px;
+            fill: ${subtitleColor};
+          }
+          .shadow {
+            fill: ${shadowColor};
           }
         </style>
       </defs>
+      ${banner ? `<rect width="${width}" height="${svgHeight}" fill="${style.bannerColor}" fill-opacity="${style.bannerOpacity}"/>` : ''}
       ${shadowElements}
       ${textElements}
     </svg>
   `;
-  return { buffer: Buffer.from(svg), svgHeight };
+  return { buffer: Buffer.from(svg), svgHeight, fit, subtitleFit };
 }
 
 /**
- * Combines 4 framed screenshots side by side over a background image
+ * Combines one framed screenshot per slot side by side over a background image
  */
 async function combineScreenshots(options: CombineOptions = {}): Promise<string> {
+  const config = options.config ?? await loadConfig();
+  const { deviceType = 'iphone', locale = 'en' } = options;
+
+  // Titles are rendered with the bundled fonts only, never with whatever the system has installed
+  configureFonts(config);
+
+  // Title style from the translations file's optional "style" entry
+  const { slots: translationSlotStyles, ...translationStyle } = await loadTitleStyle(locale, config.paths.translations);
+
+  // Explicit options win over the translations file, which wins over the config's device and locale settings
+  const resolved = resolveSettings(config, deviceType, locale);
+  const settings = { ...resolved.combine, ...translationStyle };
+  const fonts = resolved.fonts;
+  const decorations = resolved.decorations;
   const {
-    backgroundPath = defaultSettings.backgroundPath,
-    framedScreenshotsPath = defaultSettings.framedScreenshotsPath,
-    spacing = defaultSettings.spacing,
-    deviceType = defaultSettings.deviceType,
-    locale = defaultSettings.locale,
+    backgroundPath = config.paths.background,
+    framedScreenshotsPath = config.paths.framed,
+    spacing = settings.spacing,
     titles,
-    titleFontSize = defaultSettings.titleFontSize,
-    titleColor = defaultSettings.titleColor,
-    titleShadowColor = defaultSettings.titleShadowColor,
-    titleShadowOffset = defaultSettings.titleShadowOffset,
-    titleSpacing = defaultSettings.titleSpacing,
-    centerInQuarters = defaultSettings.centerInQuarters,
-    iPhoneScaleFactor = defaultSettings.iPhoneScaleFactor,
-    iPadScaleFactor = defaultSettings.iPadScaleFactor
+    subtitles,
+    titleFontSize = settings.titleFontSize,
+    titleColor = settings.titleColor,
+    titleShadowColor = settings.titleShadowColor,
+    titleShadowOffset = settings.titleShadowOffset,
+    titleSpacing = settings.titleSpacing,
+    centerInQuarters = settings.centerInQuarters,
+    titleMinFontSize = settings.titleMinFontSize,
+    subtitleFontSize = settings.subtitleFontSize,
+    subtitleColor = settings.subtitleColor,
+    subtitleSpacing = settings.subtitleSpacing,
+    subtitleMinFontSize = settings.subtitleMinFontSize,
+    captionPosition = settings.captionPosition,
+    bannerColor = settings.bannerColor,
+    bannerOpacity = settings.bannerOpacity,
+    bannerPosition = settings.bannerPosition,
+    bannerPadding = settings.bannerPadding,
+    iPhoneScaleFactor = settings.iPhoneScaleFactor,
+    iPadScaleFactor = settings.iPadScaleFactor,
+    direction = settings.direction
   } = options;
 
   // Determine which scale factor to use based on device type
   const scaleFactor = deviceType === 'ipad' ? iPadScaleFactor : iPhoneScaleFactor;
 
-  // Load titles from translations if not provided
-  const finalTitles = titles || await loadTitles(locale);
+  // Right-to-left layouts place slot_1 at the right edge so the panorama reads right to left
+  const layoutDirection = resolveDirection(direction, locale);
+
+  // Resolve the slot count from the input slot folders if not provided
+  const slotPaths = { screenshotsPath: config.paths.screenshots, translationsPath: config.paths.translations };
+  const finalSlotCount = options.slotCount ?? (titles ? titles.length : await resolveSlotCount(deviceType, locale, slotPaths));
+
+  // Load captions from translations, replacing titles and subtitles that were given explicitly
+  const translatedCaptions = titles && subtitles
+    ? []
+    : await loadCaptions(locale, finalSlotCount, config.paths.translations);
+  const finalTitles = titles || translatedCaptions.map(caption => caption.title);
+  if (finalTitles.length !== finalSlotCount) {
+    throw new Error(`Expected ${finalSlotCount} title(s) for ${deviceType}/${locale}, but got ${finalTitles.length}`);
+  }
+  if (subtitles && subtitles.length !== finalSlotCount) {
+    throw new Error(`Expected ${finalSlotCount} subtitle(s) for ${deviceType}/${locale}, but got ${subtitles.length}`);
+  }
+  const captions: Caption[] = finalTitles.map((title, index) => ({
+    title,
+    subtitle: (subtitles ? subtitles[index] : translatedCaptions[index]?.subtitle) || undefined
+  }));
+  const hasSubtitles = captions.some(caption => caption.subtitle);
+
+  // Apply per-slot title style overrides on top of the locale's title style
+  const slotStyles = resolveSlotStyles(
+    config,
+    deviceType,
+    locale,
+    finalSlotCount,
+    {
+      titleFontSize, titleColor, titleShadowColor, titleShadowOffset, titleSpacing,
+      subtitleFontSize, subtitleColor, subtitleSpacing,
+      captionPosition, bannerColor, bannerOpacity, bannerPosition, bannerPadding
+    },
+    translationSlotStyles
+  );
 
   // Generate output path if not provided
-  const outputPath = options.outputPath || generateOutputPath(framedScreenshotsPath, deviceType, locale);
+  const outputPath = options.outputPath || generateOutputPath(config.paths.combined, deviceType, locale);
+
+  // Skip sets whose framed screenshots, captions, background, fonts, decorations and settings are unchanged
+  const { cache } = options;
+  const cacheTarget = `${deviceType}/${locale}`;
+  let cacheHash = '';
+  if (cache) {
+    const { config: _config, onTitleFit: _onTitleFit, cache: _cache, ...explicitOptions } = options;
+    const inputFiles = [
+      ...await findFramedScreenshots(framedScreenshotsPath, deviceType, locale),
+      path.join(config.paths.translations, `${locale}.json`),
+      backgroundPath,
+      ...getFontFiles(fonts),
+      ...decorations.map(decoration => decoration.image)
+    ];
+    cacheHash = await hashInputs(inputFiles, {
+      explicitOptions,
+      resolved,
+      captions,
+      slotStyles,
+      outputDevices: getOutputDevices(config, deviceType)
+    });
+    const cached = findCachedWork(cache, 'combine', cacheTarget, cacheHash);
+    if (cached) {
+      console.log(`Up to date, skipping: ${outputPath}`);
+      ((cached.details ?? []) as TitleFitIssue[]).forEach(issue => options.onTitleFit?.(issue));
+      return outputPath;
+    }
+  }
 
   try {
     console.log('Starting screenshot combination process...');
 
-    // Load background image with performance optimizations
-    const backgroundImage = sharp(backgroundPath, {
-      failOnError: false,
-      limitInputPixels: false
-    });
+    // Load the background upright and in sRGB, whether it's a PNG, JPEG, HEIC or WebP
+    const backgroundImage = await loadImage(backgroundPath);
     const backgroundMetadata = await backgroundImage.metadata();
     console.log(`Background image: ${backgroundMetadata.width}x${backgroundMetadata.height}`);
 
     // Find all framed screenshots
     const framedScreenshotPaths = await findFramedScreenshots(framedScreenshotsPath, deviceType, locale);
 
+    const searchPath = path.join(framedScreenshotsPath, deviceType, locale);
     if (framedScreenshotPaths.length === 0) {
-      const searchPath = path.join(framedScreenshotsPath, deviceType, locale);
       throw new Error(`No framed screenshots found in: ${searchPath}`);
     }
 
+    // Every slot needs exactly one framed screenshot, otherwise the split boundaries drift
+    const framedSlots = framedScreenshotPaths.map(file => parseSlotNumber(path.basename(path.dirname(file)))!);
+    const missingSlots = findMissingSlots(framedSlots, finalSlotCount);
+    if (missingSlots.length > 0) {
+      throw new Error(`Missing framed screenshot(s) for ${formatSlots(missingSlots)} in ${searchPath} (expected ${finalSlotCount} slot(s)). Add a screenshot to each slot folder in 00_input/screenshots/${deviceType}/${locale}/ and re-run the framer.`);
+    }
+    const extraSlots = framedSlots.filter(slot => slot > finalSlotCount);
+    if (extraSlots.length > 0) {
+      throw new Error(`Found framed screenshot(s) for ${formatSlots(extraSlots)} in ${searchPath}, but only ${finalSlotCount} slot(s) are expected`);
+    }
+
     console.log(`Found ${framedScreenshotPaths.length} framed screenshots:`);
     framedScreenshotPaths.forEach((file, index) => {
       console.log(`  ${index + 1}. ${path.basename(path.dirname(file))}/${path.basename(file)}`);
@@ -279,93 +433,264 @@ async function combineScreenshots(options: CombineOptions = {}): Promise<string>
       })
     );
 
-    // Calculate dimensions for the combined image
+    // Every slot shares the set's orientation; "auto" takes it from the first screenshot
+    const orientation = resolved.frame.orientation !== 'auto'
+      ? resolved.frame.orientation
+      : getOrientation(framedImages[0].originalWidth, framedImages[0].originalHeight);
+    const mismatchedSlots = framedSlots.filter((_, index) =>
+      getOrientation(framedImages[index].originalWidth, framedImages[index].originalHeight) !== orientation
+    );
+    if (mismatchedSlots.length > 0) {
+      throw new Error(`Framed screenshot(s) for ${formatSlots(mismatchedSlots)} in ${searchPath} aren't ${orientation} like the rest of the set. Use screenshots of one orientation per device type and locale.`);
+    }
+    console.log(`Orientation: ${orientation}`);
+
+    // Landscape slots take the shape of the landscape output sizes, so splitting keeps the whole slot
+    const outputDevices = getOutputDevices(config, deviceType, orientation);
+    let slotAspect: number | undefined;
+    if (orientation === 'landscape') {
+      if (outputDevices.length === 0) {
+        console.warn(`⚠️  No landscape output sizes for ${deviceType} in outputDevices; the combined image keeps the background's proportions.`);
+      } else {
+        slotAspect = Math.min(...outputDevices.map(device => device.width / device.height));
+      }
+    }
+
+    // Caption areas are only reserved above and below the devices when a slot uses them
+    const captionAreas = {
+      above: slotStyles.some(style => style.captionPosition === 'above'),
+      below: slotStyles.some(style => style.captionPosition === 'below')
+    };
+
+    // Calculate dimensions for the combined image, reserving room for the largest slot title and subtitle
     const { canvasWidth, canvasHeight, imageWidth, imageHeight, quarterWidth } = calculateCanvasDimensions(
       framedImages,
       spacing,
       backgroundMetadata.width!,
       backgroundMetadata.height!,
-      titleFontSize,
-      titleSpacing,
+      Math.max(...slotStyles.map(style => style.titleFontSize)),
+      Math.max(...slotStyles.map(style => style.titleSpacing)),
+      hasSubtitles ? Math.max(...slotStyles.map(style => style.subtitleFontSize)) : 0,
+      hasSubtitles ? Math.max(...slotStyles.map(style => style.subtitleSpacing)) : 0,
+      captionAreas,
       centerInQuarters,
-      deviceType === 'ipad'
+      deviceType === 'ipad',
+      slotAspect
     );
 
     console.log(`Canvas dimensions: ${canvasWidth}x${canvasHeight}`);
     console.log(`Individual image dimensions: ${imageWidth}x${imageHeight} (scaled by ${scaleFactor}, with spacing: ${spacing}px)`);
     console.log(`Titles: ${finalTitles.join(', ')} (font size: ${titleFontSize}px, color: ${titleColor}, shadow: ${titleShadowColor} offset: ${titleShadowOffset}px)`);
+    if (hasSubtitles) {
+      console.log(`Subtitles: ${captions.map(caption => caption.subtitle ?? '-').join(', ')} (font size: ${subtitleFontSize}px, color: ${subtitleColor})`);
+    }
 
-    // Prepare background (resize if needed)
+    // Prepare background (resize if needed); landscape canvases can be smaller than the background in one dimension
     let resizedBackground = backgroundImage;
-    if (canvasWidth > backgroundMetadata.width! || canvasHeight > backgroundMetadata.height!) {
+    if (canvasWidth !== backgroundMetadata.width! || canvasHeight !== backgroundMetadata.height!) {
       console.log('Resizing background to fit canvas...');
       resizedBackground = backgroundImage.resize(canvasWidth, canvasHeight, {
-        fit: 'fill',
+        fit: 'cover',
         position: 'center'
       });
     }
 
-    // Create composite operations for titles and images
+    // Create composite operations for titles and images; overlay captions go on top of the devices
     const compositeOperations: sharp.OverlayOptions[] = [];
+    const overlayOperations: sharp.OverlayOptions[] = [];
+
+    // Horizontal position of each slot on the canvas, mirrored for right-to-left layouts
+    const slotPosition = (index: number) => layoutDirection === 'rtl' ? framedImages.length - 1 - index : index;
+    if (layoutDirection === 'rtl') {
+      console.log('Layout direction: right to left (slot_1 on the right)');
+    }
 
-    // Calculate title area (matches calculateCanvasDimensions) and SVG height for vertical centering
+    // Calculate title area per slot; every device starts below the tallest title area above the devices so they stay aligned
     const singleLineTitles = deviceType === 'ipad';
-    const lineHeight = titleFontSize * 1.2;
-    const pad = Math.ceil(titleFontSize * 0.2) + Math.abs(titleShadowOffset);
     const linesForSvg = singleLineTitles ? 1 : 2;
-    const titleHeight = (titleFontSize * (1.2 * linesForSvg)) + titleSpacing;
+    const slotTitleHeights = slotStyles.map((style, index) => {
+      const subtitleHeight = captions[index].subtitle ? style.subtitleSpacing + style.subtitleFontSize * 1.2 * linesForSvg : 0;
+      return Math.round((style.titleFontSize * (1.2 * linesForSvg)) + subtitleHeight + style.titleSpacing);
+    });
+    const titleHeight = Math.max(0, ...slotTitleHeights.filter((_, index) => slotStyles[index].captionPosition === 'above'));
+    const deviceTop = spacing + titleHeight;
+    const deviceBottom = deviceTop + Math.max(...framedImages.map(image => image.height));
 
-    // Add title operations
+    // Horizontal position of each device, centred in its quarter or in its spacing-based allocation
+    const deviceLeft = (index: number) => {
+      const framedImage = framedImages[index];
+      const position = slotPosition(index);
+      if (centerInQuarters) {
+        // Center the scaled image within its quarter
+        const quarterCenter = (position * quarterWidth) + (quarterWidth / 2);
+        return Math.round(quarterCenter - (framedImage.width / 2));
+      }
+      // Use spacing-based positioning, center the scaled image in its allocated space
+      // Use original dimensions for spacing calculations, not scaled ones
+      const originalWidth = framedImage.originalWidth;
+      const spaceStart = position * (originalWidth + spacing) + spacing;
+      return Math.round(spaceStart + (originalWidth - framedImage.width) / 2);
+    };
+
+    // Positions on the canvas in slot units (x = 1 is the split line between the first two
+    // slots), mirrored for right-to-left layouts along with the slot order
+    const slotWidth = canvasWidth / framedImages.length;
+    const canvasX = (x: number) => (layoutDirection === 'rtl' ? framedImages.length - x : x) * slotWidth;
+    const canvasRotation = (rotation: number = 0) => layoutDirection === 'rtl' ? -rotation : rotation;
+
+    // Place every device: in its own slot by default, or freely on the canvas when the slot has a placement
+    const placedDevices = await Promise.all(framedImages.map(async (framedImage, index) => {
+      const placement = slotStyles[index].placement;
+      if (!placement) {
+        const left = deviceLeft(index);
+        return {
+          buffer: framedImage.buffer,
+          left,
+          top: deviceTop,
+          width: framedImage.width,
+          height: framedImage.height,
+          centreX: left + framedImage.width / 2,
+          frameWidth: framedImage.width,
+          frameHeight: framedImage.height
+        };
+      }
+
+      const scale = placement.scale ?? 1;
+      const centreX = placement.x !== undefined ? canvasX(placement.x) : deviceLeft(index) + framedImage.width / 2;
+      const centreY = deviceTop + framedImage.height / 2 + (placement.y ?? 0);
+      const placed = await transformImage(framedImage.buffer, centreX, centreY, scale, canvasRotation(placement.rotation));
+      console.log(`Placed slot_${index + 1} device at x=${Math.round(centreX)}px (scale: ${scale}, rotation: ${placement.rotation ?? 0}°)`);
+      return { ...placed, centreX, frameWidth: Math.round(framedImage.width * scale), frameHeight: Math.round(framedImage.height * scale) };
+    }));
+
+    // Decorations are placed like devices, behind them unless marked as front
+    const placedDecorations = await Promise.all(decorations.map(async decoration => {
+      const placed = await transformImage(
+        await fs.readFile(decoration.image),
+        canvasX(decoration.x),
+        decoration.y,
+        decoration.scale ?? 1,
+        canvasRotation(decoration.rotation)
+      );
+      return { input: placed.buffer, top: placed.top, left: placed.left, front: decoration.front ?? false };
+    }));
+
+    // Add title operations, measuring text with the fonts it is rendered with
+    const titleFont: TitleFont = {
+      measurer: createTextMeasurer(getFontFiles(fonts)),
+      family: getFontFamilyList(fonts),
+      weight: fonts.weight
+    };
+    const fitIssues: TitleFitIssue[] = [];
     for (let index = 0; index < framedImages.length; index++) {
-      const titleText = finalTitles[index] || `Screenshot ${index + 1}`;
-      const { buffer: titleSvgBuffer, svgHeight: currentTitleSvgHeight } = generateTitleSvg(
-        titleText,
-        titleFontSize,
-        titleColor,
-        titleShadowColor,
-        titleShadowOffset,
-        imageWidth,
-        singleLineTitles ? 1 : 2
+      const caption = { ...captions[index], title: captions[index].title || `Screenshot ${index + 1}` };
+      const captionPosition = slotStyles[index].captionPosition;
+      const overlay = captionPosition === 'overlay';
+      const { buffer: titleSvgBuffer, svgHeight: currentTitleSvgHeight, fit, subtitleFit } = generateTitleSvg(
+        caption,
+        slotStyles[index],
+        overlay ? placedDevices[index].frameWidth : imageWidth,
+        linesForSvg,
+        titleFont,
+        { title: titleMinFontSize, subtitle: subtitleMinFontSize },
+        layoutDirection,
+        overlay
       );
 
+      if (fit.shrunk || fit.truncated) {
+        fitIssues.push({
+          deviceType,
+          locale,
+          slot: index + 1,
+          line: 'title',
+          text: caption.title,
+          fontSize: slotStyles[index].titleFontSize,
+          fittedFontSize: fit.fontSize,
+          truncated: fit.truncated
+        });
+      }
+      if (subtitleFit && (subtitleFit.shrunk || subtitleFit.truncated)) {
+        fitIssues.push({
+          deviceType,
+          locale,
+          slot: index + 1,
+          line: 'subtitle',
+          text: caption.subtitle!,
+          fontSize: slotStyles[index].subtitleFontSize,
+          fittedFontSize: subtitleFit.fontSize,
+          truncated: subtitleFit.truncated
+        });
+      }
+
+      if (overlay) {
+        // Centre the banner on the device at bannerPosition, keeping it within the device; the banner stays level on rotated devices
+        const device = placedDevices[index];
+        const frameTop = device.top + Math.round((device.height - device.frameHeight) / 2);
+        const bannerCentre = frameTop + device.frameHeight * slotStyles[index].bannerPosition;
+        const bannerTop = Math.round(bannerCentre - currentTitleSvgHeight / 2);
+        overlayOperations.push({
+          input: titleSvgBuffer,
+          top: Math.min(Math.max(bannerTop, frameTop), frameTop + Math.max(0, device.frameHeight - currentTitleSvgHeight)),
+          left: Math.round(device.centreX - device.frameWidth / 2)
+        });
+        continue;
+      }
+
+      // Centre the title within its own title area, which sits directly above or below the device
+      const slotTitleHeight = slotTitleHeights[index];
+      const slotTitleTop = captionPosition === 'below' ? deviceBottom : spacing + (titleHeight - slotTitleHeight);
+
+      const position = slotPosition(index);
       const leftPosition = centerInQuarters
-        ? Math.round(((index * quarterWidth) + (quarterWidth / 2)) - (imageWidth / 2))
-        : index * (imageWidth + spacing) + spacing;
+        ? Math.round(((position * quarterWidth) + (quarterWidth / 2)) - (imageWidth / 2))
+        : position * (imageWidth + spacing) + spacing;
 
       compositeOperations.push({
         input: titleSvgBuffer,
-        top: spacing + Math.max(0, Math.round((titleHeight - currentTitleSvgHeight) / 2)),
+        top: slotTitleTop + Math.max(0, Math.round((slotTitleHeight - currentTitleSvgHeight) / 2)),
         left: leftPosition
       });
     }
 
-    // Add image operations (shifted down to make room for titles)
-    for (let index = 0; index < framedImages.length; index++) {
-      const framedImage = framedImages[index];
+    if (fitIssues.length > 0) {
+      console.warn(`⚠️  ${fitIssues.length} title(s) for ${deviceType}/${locale} didn't fit:`);
+      fitIssues.forEach(issue => {
+        console.warn(`    ${formatTitleFitIssue(issue)}`);
+        options.onTitleFit?.(issue);
+      });
+    }
 
-      let leftPosition: number;
-      if (centerInQuarters) {
-        // Center the scaled image within its quarter
-        const quarterCenter = (index * quarterWidth) + (quarterWidth / 2);
-        leftPosition = Math.round(quarterCenter - (framedImage.width / 2));
-      } else {
-        // Use spacing-based positioning, center the scaled image in its allocated space
-        // Use original dimensions for spacing calculations, not scaled ones
-        const originalWidth = framedImage.originalWidth;
-        const spaceStart = index * (originalWidth + spacing) + spacing;
-        leftPosition = Math.round(spaceStart + (originalWidth - framedImage.width) / 2);
+    // The bundled CJK fonts are subsets, so characters the translations didn't use before may have no glyph and render as blank boxes
+    const uncovered = findUncoveredCharacters(captions.map(caption => `${caption.title}${caption.subtitle ?? ''}`).join(''), getFontFiles(fonts));
+    if (uncovered.length > 0) {
+      console.warn(`⚠️  No title font for ${deviceType}/${locale} has a glyph for: ${uncovered.join(' ')}. Add a font that covers them, or re-subset the bundled CJK fonts (see Fonts in the README).`);
+    }
+
+    // The splitter keeps the top of the canvas that matches the output aspect ratio; warn if captions below fall outside it.
+    // Without output sizes there is nothing to split, so nothing gets cut off.
+    if (captionAreas.below && outputDevices.length > 0) {
+      const outputAspect = Math.min(...outputDevices.map(device => device.height / device.width));
+      const visibleHeight = Math.floor(quarterWidth * outputAspect);
+      const captionsBottom = deviceBottom + Math.max(...slotTitleHeights.filter((_, index) => slotStyles[index].captionPosition === 'below'));
+      if (captionsBottom > visibleHeight) {
+        console.warn(`⚠️  Captions below the devices end at ${captionsBottom}px, but only the top ${visibleHeight}px are kept when splitting. Lower the scale factor or title sizes so they aren't cut off.`);
       }
+    }
 
+    // Add image operations (shifted down to make room for titles above the devices)
+    for (const device of placedDevices) {
       compositeOperations.push({
-        input: framedImage.buffer,
-        top: spacing + titleHeight,
-        left: leftPosition
+        input: device.buffer,
+        top: device.top,
+        left: device.left
       });
     }
 
-    // Composite everything
+    // Composite everything: decorations behind, titles and devices, decorations in front, then overlay captions
+    const backDecorations = placedDecorations.filter(decoration => !decoration.front);
+    const frontDecorations = placedDecorations.filter(decoration => decoration.front);
     const combinedImage = await resizedBackground
-      .composite(compositeOperations)
+      .composite([...backDecorations, ...compositeOperations, ...frontDecorations, ...overlayOperations])
       .png()
       .toBuffer();
 
@@ -376,6 +701,9 @@ async function combineScreenshots(options: CombineOptions = {}): Promise<string>
     await sharp(combinedImage).toFile(outputPath);
 
     console.log(`Combined screenshot saved to: ${outputPath}`);
+    if (cache) {
+      recordWork(cache, 'combine', cacheTarget, cacheHash, [outputPath], fitIssues);
+    }
     return outputPath;
 
   } catch (error) {
@@ -384,6 +712,15 @@ async function combineScreenshots(options: CombineOptions = {}): Promise<string>
   }
 }
 
+/**
+ * Describes a shrunk or truncated title, e.g. "iphone/de slot_2: shrunk 130px -> 104px"
+ */
+function formatTitleFitIssue(issue: TitleFitIssue): string {
+  const action = issue.truncated ? 'truncated' : 'shrunk';
+  const line = issue.line === 'subtitle' ? ' subtitle' : '';
+  return `${issue.deviceType}/${issue.locale} slot_${issue.slot}${line}: ${action} ${issue.fontSize}px -> ${issue.fittedFontSize}px ("${issue.text}")`;
+}
+
 /**
  * Finds all framed screenshots for the specified device type and locale
  */
@@ -399,7 +736,7 @@ async function findFramedScreenshots(basePath: string, deviceType: string, local
       const slotPath = path.join(devicePath, slotDir);
       const stat = await fs.stat(slotPath);
 
-      if (stat.isDirectory() && slotDir.startsWith('slot_')) {
+      if (stat.isDirectory() && parseSlotNumber(slotDir) !== undefined) {
         const framedPath = path.join(slotPath, 'framed.png');
 
         try {
@@ -413,8 +750,8 @@ async function findFramedScreenshots(basePath: string, deviceType: string, local
 
     // Sort by slot number
     return screenshotPaths.sort((a, b) => {
-      const slotA = parseInt(path.basename(path.dirname(a)).replace('slot_', ''));
-      const slotB = parseInt(path.basename(path.dirname(b)).replace('slot_', ''));
+      const slotA = parseSlotNumber(path.basename(path.dirname(a)))!;
+      const slotB = parseSlotNumber(path.basename(path.dirname(b)))!;
       return slotA - slotB;
     });
 
@@ -425,7 +762,40 @@ async function findFramedScreenshots(basePath: string, deviceType: string, local
 }
 
 /**
- * Calculates the canvas dimensions needed for the combined image
+ * Scales and rotates an image, then positions it so its centre lands on (centreX, centreY).
+ * Rotation expands the image to fit its rotated corners, with a transparent background.
+ */
+async function transformImage(
+  input: Buffer,
+  centreX: number,
+  centreY: number,
+  scale: number,
+  rotation: number
+): Promise<{ buffer: Buffer; left: number; top: number; width: number; height: number }> {
+  let image = sharp(input, { limitInputPixels: false });
+  if (scale !== 1) {
+    const metadata = await image.metadata();
+    image = sharp(await image.resize(Math.max(1, Math.round(metadata.width! * scale))).png().toBuffer());
+  }
+  if (rotation % 360 !== 0) {
+    image = image.rotate(rotation, { background: { r: 0, g: 0, b: 0, alpha: 0 } });
+  }
+
+  const { data, info } = await image.png().toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    left: Math.round(centreX - info.width / 2),
+    top: Math.round(centreY - info.height / 2),
+    width: info.width,
+    height: info.height
+  };
+}
+
+/**
+ * Calculates the canvas dimensions needed for the combined image.
+ * Pass a subtitleFontSize of 0 when no slot has a subtitle. A title area is reserved
+ * above and/or below the devices for the caption areas in use; overlay captions need none.
+ * A slotAspect (width / height) gives every slot that shape, as landscape sets need.
  */
 function calculateCanvasDimensions(
   framedImages: Array<{ width: number; height: number; originalWidth?: number; originalHeight?: number }>,
@@ -434,8 +804,12 @@ function calculateCanvasDimensions(
   bgHeight: number,
   titleFontSize: number,
   titleSpacing: number,
+  subtitleFontSize: number,
+  subtitleSpacing: number,
+  captionAreas: { above: boolean; below: boolean },
   centerInQuarters: boolean,
-  singleLineTitles: boolean
+  singleLineTitles: boolean,
+  slotAspect?: number
 ): { canvasWidth: number; canvasHeight: number; imageWidth: number; imageHeight: number; quarterWidth: number } {
   // Use the first image's original dimensions as reference for canvas calculations (assuming all are the same)
   // This ensures consistent spacing and sizing regardless of scaling
@@ -445,18 +819,26 @@ function calculateCanvasDimensions(
   // Calculate title height based on number of lines (iPad uses single-line titles)
   const lines = singleLineTitles ? 1 : 2;
   const pad = Math.ceil(titleFontSize * 0.2) + 1; // +1 minimal shadow offset if any
-  const titleHeight = Math.ceil((titleFontSize * 1.2 * lines) + pad * 2) + titleSpacing;
+  const subtitleHeight = subtitleFontSize > 0 ? subtitleSpacing + (subtitleFontSize * 1.2 * lines) : 0;
+  const titleHeight = Math.ceil((titleFontSize * 1.2 * lines) + subtitleHeight + pad * 2) + titleSpacing;
 
   // Calculate required canvas size (including title space)
   const totalWidth = (imageWidth * framedImages.length) + (spacing * (framedImages.length + 1));
-  const totalHeight = imageHeight + titleHeight + (spacing * 2);
-
-  // Use the larger of background or calculated size
-  const canvasWidth = Math.max(bgWidth, totalWidth);
-  const canvasHeight = Math.max(bgHeight, totalHeight);
+  const captionAreaCount = Number(captionAreas.above) + Number(captionAreas.below);
+  const totalHeight = imageHeight + titleHeight * captionAreaCount + (spacing * 2);
+
+  // Use the larger of background or calculated size; with a slot aspect ratio (width / height),
+  // size each slot to that shape instead, just large enough for its device and titles
+  let canvasWidth = Math.max(bgWidth, totalWidth);
+  let canvasHeight = Math.max(bgHeight, totalHeight);
+  if (slotAspect) {
+    const slotWidth = Math.max(totalWidth / framedImages.length, totalHeight * slotAspect);
+    canvasWidth = Math.ceil(slotWidth * framedImages.length);
+    canvasHeight = Math.ceil(slotWidth / slotAspect);
+  }
 
-  // Quarters are equal divisions of the canvas width. Even if not centering,
-  // returning this helps callers compute precise positions when needed.
+  // Quarters are equal divisions of the canvas width, one per slot. Even if not
+  // centering, returning this helps callers compute precise positions when needed.
   const quarterWidth = Math.floor(canvasWidth / framedImages.length);
 
   return { canvasWidth, canvasHeight, imageWidth, imageHeight, quarterWidth };
@@ -465,10 +847,9 @@ function calculateCanvasDimensions(
 /**
  * Generates an output path for the combined image
  */
-function generateOutputPath(framedScreenshotsPath: string, deviceType: string, locale: string): string {
+function generateOutputPath(combinedScreenshotsPath: string, deviceType: string, locale: string): string {
   // Create output path like: 02_input_combined/combined_screenshots/iphone/en/combined.png
-  // Resolve from the combiner directory
-  return path.resolve(__dirname, 'combined_screenshots', deviceType, locale, 'combined.png');
+  return path.resolve(combinedScreenshotsPath, deviceType, locale, 'combined.png');
 }
 
 /**
@@ -477,8 +858,17 @@ function generateOutputPath(framedScreenshotsPath: string, deviceType: string, l
 async function main() {
   const args = process.argv.slice(2);
 
+  // Load the project config (optionally from --config <path>)
+  let config: ProjectConfig;
+  try {
+    config = await loadConfig(takeConfigArg(args));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   // Check for device argument
-  let targetDevice: 'iphone' | 'ipad' | undefined;
+  let targetDevice: DeviceType | undefined;
   const deviceIndex = args.indexOf('--device');
   if (deviceIndex !== -1 && args[deviceIndex + 1]) {
     const deviceValue = args[deviceIndex + 1];
@@ -494,18 +884,19 @@ async function main() {
   if (args.length === 0) {
     // No arguments - process all available locales
     console.log('Combining screenshots for all available locales...');
-    console.log('Background: 00_input/background/bg.png');
-    console.log('Framed screenshots: 01_input_framed/framed_screenshots/');
-    console.log(`Spacing: ${defaultSettings.spacing}px`);
+    console.log(`Background: ${config.paths.background}`);
+    console.log(`Framed screenshots: ${config.paths.framed}`);
+    console.log(`Spacing: ${config.combine.spacing}px`);
 
     try {
-      const locales = await getAvailableLocales();
+      const locales = await getAvailableLocales(config.paths.translations);
       console.log(`Found ${locales.length} locale(s): ${locales.join(', ')}`);
       console.log('');
 
       // PARALLEL PROCESSING IMPLEMENTATION
       let processed = 0;
       let failed = 0;
+      const titleFitIssues: TitleFitIssue[] = [];
 
       // Process locales in batches to avoid overwhelming the system
       for (let i = 0; i < locales.length; i += COMBINER_BATCH_SIZE) {
@@ -516,16 +907,20 @@ async function main() {
           const globalIndex = i + batchIndex + 1;
           try {
             console.log(`[${globalIndex}/${locales.length}] Processing locale: ${locale}`);
-            const titles = await loadTitles(locale);
-            const scaleFactor = targetDevice === 'ipad' ? defaultSettings.iPadScaleFactor : defaultSettings.iPhoneScaleFactor;
-            console.log(`Titles: ${titles.join(', ')} (${defaultSettings.titleFontSize}px, ${defaultSettings.titleColor}, shadow: ${defaultSettings.titleShadowColor} offset: ${defaultSettings.titleShadowOffset}px, scale: ${scaleFactor})`);
+            const deviceType = targetDevice || 'iphone';
+            const settings = resolveSettings(config, deviceType, locale).combine;
+            const slotCount = await resolveSlotCount(deviceType, locale, { screenshotsPath: config.paths.screenshots, translationsPath: config.paths.translations });
+            const captions = await loadCaptions(locale, slotCount, config.paths.translations);
+            const scaleFactor = deviceType === 'ipad' ? settings.iPadScaleFactor : settings.iPhoneScaleFactor;
+            console.log(`Titles: ${captions.map(caption => caption.title).join(', ')} (${settings.titleFontSize}px, ${settings.titleColor}, shadow: ${settings.titleShadowColor} offset: ${settings.titleShadowOffset}px, scale: ${scaleFactor})`);
             console.log('');
 
             await combineScreenshots({
               locale,
-              deviceType: targetDevice,
-              iPhoneScaleFactor: defaultSettings.iPhoneScaleFactor,
-              iPadScaleFactor: defaultSettings.iPadScaleFactor
+              deviceType,
+              slotCount,
+              config,
+              onTitleFit: issue => titleFitIssues.push(issue)
             });
             return { success: true, locale };
           } catch (error) {
@@ -549,6 +944,10 @@ async function main() {
 
       console.log('Multi-locale combination completed:');
       console.log(`  ✅ Successfully processed: ${processed} locale(s)`);
+      if (titleFitIssues.length > 0) {
+        console.log(`  ⚠️  Titles shrunk or truncated to fit: ${titleFitIssues.length}`);
+        titleFitIssues.forEach(issue => console.log(`      ${formatTitleFitIssue(issue)}`));
+      }
       if (failed > 0) {
         console.log(`  ❌ Failed to process: ${failed} locale(s)`);
         process.exit(1);
@@ -562,7 +961,9 @@ async function main() {
     // Show help
     console.log('App Store Screenshot Combiner');
     console.log('');
-    console.log('Combines 4 framed screenshots side by side over a background image.');
+    console.log('Combines one framed screenshot per slot side by side over a background image.');
+    console.log('The slot count comes from the slot_N folders in 00_input/screenshots/[device]/[locale]/');
+    console.log('(up to 10); each slot takes its title from 00_input/translations/[locale].json.');
     console.log('');
     console.log('Usage:');
     console.log('  tsx 02_input_combined/combiner.ts                                      # Process all available locales (iPhone)');
@@ -570,14 +971,19 @@ async function main() {
     console.log('  tsx 02_input_combined/combiner.ts --device <iphone|ipad>               # Process all locales for specific device');
     console.log('  tsx 02_input_combined/combiner.ts --background <path>                  # Specify background image');
     console.log('  tsx 02_input_combined/combiner.ts --spacing <pixels>                   # Set spacing between images');
-    console.log('  tsx 02_input_combined/combiner.ts --titles <title1,title2,title3,title4> # Override default titles from translations');
+    console.log('  tsx 02_input_combined/combiner.ts --titles <title1,title2,...>          # Override default titles from translations');
+    console.log('  tsx 02_input_combined/combiner.ts --subtitles <sub1,sub2,...>          # Override default subtitles from translations');
     console.log('  tsx 02_input_combined/combiner.ts --title-font-size <size>             # Set title font size');
     console.log('  tsx 02_input_combined/combiner.ts --title-color <color>                # Set title color (hex)');
     console.log('  tsx 02_input_combined/combiner.ts --title-shadow-color <color>         # Set title shadow color (hex)');
     console.log('  tsx 02_input_combined/combiner.ts --title-shadow-offset <pixels>       # Set title shadow offset');
     console.log('  tsx 02_input_combined/combiner.ts --title-spacing <pixels>             # Set spacing below titles');
+    console.log('  tsx 02_input_combined/combiner.ts --subtitle-font-size <size>          # Set subtitle font size');
+    console.log('  tsx 02_input_combined/combiner.ts --subtitle-color <color>             # Set subtitle color (hex)');
+    console.log('  tsx 02_input_combined/combiner.ts --caption-position <above|below|overlay> # Place captions above, below or over the devices');
     console.log('  tsx 02_input_combined/combiner.ts --iphone-scale-factor <factor>      # Scale iPhone framed screenshots (e.g., 0.9)');
     console.log('  tsx 02_input_combined/combiner.ts --ipad-scale-factor <factor>        # Scale iPad framed screenshots (e.g., 0.9)');
+    console.log('  tsx 02_input_combined/combiner.ts --config <path>                      # Use a specific project config file');
     console.log('  tsx 02_input_combined/combiner.ts --help                               # Show this help');
     console.log('');
     console.log('Examples:');
@@ -587,6 +993,9 @@ async function main() {
     console.log('  tsx 02_input_combined/combiner.ts --titles "Login,Home,Profile,Settings" --title-font-size 28 --title-color "#ffffff" --title-shadow-color "#000000" --title-shadow-offset 2');
     console.log('  tsx 02_input_combined/combiner.ts --iphone-scale-factor 0.8 --ipad-scale-factor 0.9 --locale en');
     console.log('');
+    console.log('Defaults come from the "combine" and "paths" sections of screenshots.config.json,');
+    console.log('with per-device and per-locale overrides under "devices" and "locales".');
+    console.log('');
     console.log('Default paths:');
     console.log('  Background: 00_input/background/bg.png');
     console.log('  Framed screenshots: 01_input_framed/framed_screenshots/');
@@ -599,17 +1008,12 @@ async function main() {
     console.log('  combined_screenshots/[iphone|ipad]/[locale]/combined.png');
 
   } else {
-    // Parse arguments
-    let backgroundPath = defaultSettings.backgroundPath;
-    let spacing = defaultSettings.spacing;
+    // Parse arguments; anything not given on the command line comes from the config
+    const deviceType = targetDevice || 'iphone';
+    const overrides: Partial<CombineSettings> = {};
+    let backgroundPath = config.paths.background;
     let titles: string[] | undefined;
-    let titleFontSize = defaultSettings.titleFontSize;
-    let titleColor = defaultSettings.titleColor;
-    let titleShadowColor = defaultSettings.titleShadowColor;
-    let titleShadowOffset = defaultSettings.titleShadowOffset;
-    let titleSpacing = defaultSettings.titleSpacing;
-    let iPhoneScaleFactor = defaultSettings.iPhoneScaleFactor;
-    let iPadScaleFactor = defaultSettings.iPadScaleFactor;
+    let subtitles: string[] | undefined;
     let locale = 'en'; // Default locale for single processing
 
     for (let i = 0; i < args.length; i++) {
@@ -617,7 +1021,7 @@ async function main() {
         backgroundPath = args[i + 1];
         i++;
       } else if (args[i] === '--spacing' && args[i + 1]) {
-        spacing = parseInt(args[i + 1]);
+        overrides.spacing = parseInt(args[i + 1]);
         i++;
       } else if (args[i] === '--locale' && args[i + 1]) {
         locale = args[i + 1];
@@ -625,42 +1029,59 @@ async function main() {
       } else if (args[i] === '--titles' && args[i + 1]) {
         titles = args[i + 1].split(',');
         i++;
+      } else if (args[i] === '--subtitles' && args[i + 1]) {
+        subtitles = args[i + 1].split(',');
+        i++;
+      } else if (args[i] === '--subtitle-font-size' && args[i + 1]) {
+        overrides.subtitleFontSize = parseInt(args[i + 1]);
+        i++;
+      } else if (args[i] === '--subtitle-color' && args[i + 1]) {
+        overrides.subtitleColor = args[i + 1];
+        i++;
+      } else if (args[i] === '--caption-position' && args[i + 1]) {
+        const captionPosition = args[i + 1];
+        if (captionPosition !== 'above' && captionPosition !== 'below' && captionPosition !== 'overlay') {
+          console.error(`❌ Invalid caption position: ${captionPosition}. Must be 'above', 'below' or 'overlay'.`);
+          process.exit(1);
+        }
+        overrides.captionPosition = captionPosition;
+        i++;
       } else if (args[i] === '--title-font-size' && args[i + 1]) {
-        titleFontSize = parseInt(args[i + 1]);
+        overrides.titleFontSize = parseInt(args[i + 1]);
         i++;
       } else if (args[i] === '--title-color' && args[i + 1]) {
-        titleColor = args[i + 1];
+        overrides.titleColor = args[i + 1];
         i++;
       } else if (args[i] === '--title-shadow-color' && args[i + 1]) {
-        titleShadowColor = args[i + 1];
+        overrides.titleShadowColor = args[i + 1];
         i++;
       } else if (args[i] === '--title-shadow-offset' && args[i + 1]) {
-        titleShadowOffset = parseInt(args[i + 1]);
+        overrides.titleShadowOffset = parseInt(args[i + 1]);
         i++;
       } else if (args[i] === '--title-spacing' && args[i + 1]) {
-        titleSpacing = parseInt(args[i + 1]);
+        overrides.titleSpacing = parseInt(args[i + 1]);
         i++;
       } else if (args[i] === '--iphone-scale-factor' && args[i + 1]) {
-        iPhoneScaleFactor = parseFloat(args[i + 1]);
+        overrides.iPhoneScaleFactor = parseFloat(args[i + 1]);
         i++;
       } else if (args[i] === '--ipad-scale-factor' && args[i + 1]) {
-        iPadScaleFactor = parseFloat(args[i + 1]);
+        overrides.iPadScaleFactor = parseFloat(args[i + 1]);
         i++;
       }
     }
 
-    // Load titles from translations if not explicitly provided
+    const settings = { ...resolveSettings(config, deviceType, locale).combine, ...overrides };
+
+    // Load captions from translations if not explicitly provided
     if (!titles) {
       try {
-        titles = await loadTitles(locale);
+        const slotCount = await resolveSlotCount(deviceType, locale, { screenshotsPath: config.paths.screenshots, translationsPath: config.paths.translations });
+        const captions = await loadCaptions(locale, slotCount, config.paths.translations);
+        titles = captions.map(caption => caption.title);
+        subtitles = subtitles ?? captions.map(caption => caption.subtitle ?? '');
       } catch (error) {
-        console.warn(`Could not load titles for locale ${locale}, using defaults:`, error);
-        titles = [
-          'Save & Create Recipes',
-          'Plan Meals in Seconds',
-          'Smart Grocery Lists',
-          'Step-by-Step Cooking'
-        ];
+        console.error(`❌ Could not resolve slots for locale ${locale}:`, error);
+        process.exit(1);
       }
     }
 
@@ -669,26 +1090,25 @@ async function main() {
       console.log(`Target device: ${targetDevice}`);
     }
     console.log(`Using background: ${backgroundPath}`);
-    console.log(`Using spacing: ${spacing}px`);
-    console.log(`Using scale factors - iPhone: ${iPhoneScaleFactor}, iPad: ${iPadScaleFactor}`);
+    console.log(`Using spacing: ${settings.spacing}px`);
+    console.log(`Using scale factors - iPhone: ${settings.iPhoneScaleFactor}, iPad: ${settings.iPadScaleFactor}`);
     console.log(`Using titles: ${titles.join(', ')}`);
-    console.log(`Title font size: ${titleFontSize}px, color: ${titleColor}, shadow: ${titleShadowColor} offset: ${titleShadowOffset}px`);
+    if (subtitles?.some(subtitle => subtitle)) {
+      console.log(`Using subtitles: ${subtitles.join(', ')}`);
+    }
+    console.log(`Title font size: ${settings.titleFontSize}px, color: ${settings.titleColor}, shadow: ${settings.titleShadowColor} offset: ${settings.titleShadowOffset}px`);
     console.log('');
 
     try {
+      // Only the command-line overrides are passed on, so the translations file's style still wins over the config
       await combineScreenshots({
+        ...overrides,
         backgroundPath,
-        spacing,
         locale,
         titles,
-        titleFontSize,
-        titleColor,
-        titleShadowColor,
-        titleShadowOffset,
-        titleSpacing,
-        iPhoneScaleFactor,
-        iPadScaleFactor,
-        deviceType: targetDevice || defaultSettings.deviceType
+        subtitles,
+        deviceType,
+        config
       });
       console.log('Combination completed successfully!');
     } catch (error) {
@@ -699,7 +1119,8 @@ async function main() {
 }
 
 // Export for use as a module
-export { combineScreenshots };
+export { combineScreenshots, getAvailableLocales, formatTitleFitIssue, loadCaptions, calculateCanvasDimensions, generateTitleSvg, generateOutputPath };
+export type { TitleFitIssue, Caption, TitleFont };
 
 // Run if called directly
 if (require.main === module) {
@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { loadConfig, takeConfigArg } from '../shared/config';
 
 /**
  * Recursively deletes a directory and all its contents
@@ -25,13 +26,14 @@ async function deleteDirectory(dirPath: string): Promise<void> {
 /**
  * Cleans up generated screenshot directories
  */
-async function cleanup(): Promise<void> {
+async function cleanup(configPath?: string): Promise<void> {
   console.log('🧹 Starting cleanup of generated screenshots...\n');
 
+  const { paths } = await loadConfig(configPath);
   const directoriesToClean = [
-    path.join(__dirname, '../01_input_framed/framed_screenshots'),
-    path.join(__dirname, '../02_input_combined/combined_screenshots'),
-    path.join(__dirname, '../output')
+    paths.framed,
+    paths.combined,
+    paths.output
   ];
 
   let cleaned = 0;
@@ -40,7 +42,7 @@ async function cleanup(): Promise<void> {
   for (const dir of directoriesToClean) {
     try {
       // Check if output directory exists and show what locales it contains
-      if (path.basename(dir) === 'output') {
+      if (dir === paths.output) {
         try {
           const { readdir } = require('fs/promises');
           const entries = await readdir(dir, { withFileTypes: true });
@@ -82,7 +84,7 @@ async function cleanup(): Promise<void> {
  */
 async function main() {
   try {
-    await cleanup();
+    await cleanup(takeConfigArg(process.argv.slice(2)));
   } catch (error) {
     console.error('💥 Cleanup failed:', error);
     process.exit(1);
@@ -2,6 +2,10 @@ import sharp from 'sharp';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { readdir } from 'fs/promises';
+import { resolveSlotCount } from '../shared/slots';
+import { DISPLAY_SIZES } from '../shared/devices';
+import { BuildCache, findCachedWork, hashInputs, recordWork } from '../shared/cache';
+import { DeviceConfig, DeviceType, LayoutDirection, Orientation, OutputFormat, OutputSettings, OUTPUT_FORMATS, ProjectConfig, getOrientation, getOutputDevices, loadConfig, resolveDirection, resolveSettings, takeConfigArg } from '../shared/config';
 
 // Sharp performance optimizations for 24-core system
 sharp.concurrency(2); // Limit internal thread pool to avoid oversubscription
@@ -10,57 +14,26 @@ sharp.cache(false); // Disable cache for better memory usage with large batches
 // Batch processing configuration
 const SPLITTER_BATCH_SIZE = 16; // 16 parallel operations for resize/split operations
 
-interface DeviceConfig {
-  name: string;
-  width: number;
-  height: number;
-  outputPath: string;
-}
-
 interface SplitterOptions {
   inputPath?: string;
   outputBasePath?: string;
   deviceConfigs?: DeviceConfig[];
   locale?: string;
-  deviceType?: 'iphone' | 'ipad';
+  deviceType?: DeviceType;
+  slotCount?: number;
+  /** Direction the combined image was laid out in; defaults to the config's direction for the locale */
+  direction?: LayoutDirection;
+  /** Orientation of the set; defaults to the config's orientation, else the shape of the combined image's slots */
+  orientation?: Orientation;
+  config?: ProjectConfig;
+  /** Build cache; when given, a combined image whose inputs haven't changed isn't split again */
+  cache?: BuildCache;
 }
 
-/**
- * Configuration for different device screenshot resolutions
- */
-const DEFAULT_DEVICE_CONFIGS: DeviceConfig[] = [
-  // {
-  //   name: 'iphone 6.7 inch',
-  //   width: 1290,
-  //   height: 2796,
-  //   outputPath: 'iphone 6.7 inch (1290x2796)'
-  // },
-  {
-    name: 'iphone 6.5 inch',
-    width: 1242,
-    height: 2688,
-    outputPath: 'iphone 6.5 inch (1242x2688)'
-  },
-  {
-    name: 'iphone 6.9 inch',
-    width: 1320,
-    height: 2868,
-    outputPath: 'iphone 6.9 inch (1320x2868)'
-  },
-  {
-    name: 'ipad 13 inch',
-    width: 2752,
-    height: 2064,
-    outputPath: 'ipad 13 inch (2752x2064)'
-  }
-];
-
 /**
  * Gets all available locales from the translations directory
  */
-async function getAvailableLocales(): Promise<string[]> {
-  const translationsDir = path.resolve(__dirname, '../00_input/translations');
-
+async function getAvailableLocales(translationsDir: string): Promise<string[]> {
   try {
     const entries = await readdir(translationsDir, { withFileTypes: true });
     return entries
@@ -75,24 +48,18 @@ async function getAvailableLocales(): Promise<string[]> {
 }
 
 /**
- * Splits combined screenshots into individual device-sized images
+ * Splits combined screenshots into individual device-sized images.
+ * Returns the paths of all written slot images.
  */
-async function splitScreenshots(options: SplitterOptions = {}): Promise<void> {
+async function splitScreenshots(options: SplitterOptions = {}): Promise<string[]> {
+  const config = options.config ?? await loadConfig();
   const {
-    inputPath = path.resolve(__dirname, '../02_input_combined/combined_screenshots'),
-    outputBasePath = path.resolve(__dirname, '../output'),
-    deviceConfigs = DEFAULT_DEVICE_CONFIGS,
+    inputPath = config.paths.combined,
+    outputBasePath = config.paths.output,
     locale = 'en',
     deviceType = 'iphone'
   } = options;
 
-  // Filter device configs based on device type if specified
-  const filteredConfigs = deviceType === 'iphone'
-    ? deviceConfigs.filter(config => config.name.toLowerCase().includes('iphone'))
-    : deviceType === 'ipad'
-    ? deviceConfigs.filter(config => config.name.toLowerCase().includes('ipad'))
-    : deviceConfigs;
-
   try {
     console.log('Starting screenshot splitting process...');
     console.log(`Input path: ${inputPath}`);
@@ -119,30 +86,87 @@ async function splitScreenshots(options: SplitterOptions = {}): Promise<void> {
 
     console.log(`Combined image dimensions: ${metadata.width}x${metadata.height}`);
 
+    // Resolve the slot count from the input slot folders if not provided
+    const slotCount = options.slotCount ?? await resolveSlotCount(deviceType, locale, {
+      screenshotsPath: config.paths.screenshots,
+      translationsPath: config.paths.translations
+    });
+    console.log(`Slot count: ${slotCount}`);
+
+    // Right-to-left combined images have slot_1 at the right edge
+    const direction = options.direction ?? resolveDirection(resolveSettings(config, deviceType, locale).combine.direction, locale);
+    if (direction === 'rtl') {
+      console.log('Layout direction: right to left (slot_1 on the right)');
+    }
+
     // Validate that we have a valid image
     if (!metadata.width || !metadata.height) {
       throw new Error('Invalid combined image: missing width or height metadata');
     }
 
-    // Validate minimum dimensions
-    if (metadata.width < 1000 || metadata.height < 1000) {
-      throw new Error(`Combined image too small: ${metadata.width}x${metadata.height}. Expected at least 1000x1000.`);
+    // Only split into the output sizes for this device type and the set's orientation
+    const orientationSetting = resolveSettings(config, deviceType, locale).frame.orientation;
+    const orientation = options.orientation
+      ?? (orientationSetting !== 'auto' ? orientationSetting : getOrientation(metadata.width / slotCount, metadata.height));
+    console.log(`Orientation: ${orientation}`);
+    const filteredConfigs = getOutputDevices({ ...config, outputDevices: options.deviceConfigs ?? config.outputDevices }, deviceType, orientation);
+    if (filteredConfigs.length === 0) {
+      console.warn(`⚠️  No ${orientation} output sizes for ${deviceType} in outputDevices; nothing to split into.`);
+    }
+
+    // Skip sets whose combined image, output sizes and output settings are unchanged
+    const { cache } = options;
+    const cacheTarget = `${deviceType}/${locale}`;
+    let cacheHash = '';
+    if (cache) {
+      cacheHash = await hashInputs([combinedImagePath], {
+        outputBasePath,
+        slotCount,
+        direction,
+        outputDevices: filteredConfigs,
+        output: config.output
+      });
+      const cached = findCachedWork(cache, 'split', cacheTarget, cacheHash);
+      if (cached) {
+        console.log(`Up to date, skipping: ${combinedImagePath}`);
+        return cached.outputs;
+      }
     }
 
     // Process each device configuration
+    const outputPaths: string[] = [];
+    const complianceProblems: string[] = [];
     for (const deviceConfig of filteredConfigs) {
       console.log(`\nProcessing ${deviceConfig.name}...`);
 
-      await processDeviceConfig(
+      const slotPaths = await processDeviceConfig(
         combinedImage,
         metadata,
         deviceConfig,
         outputBasePath,
-        locale
+        locale,
+        slotCount,
+        direction,
+        config.output
       );
+      outputPaths.push(...slotPaths);
+
+      for (const slotPath of slotPaths) {
+        complianceProblems.push(...await checkCompliance(slotPath, deviceConfig, config.output));
+      }
+    }
+
+    // Nothing counts as done until every file would pass App Store Connect's checks
+    if (complianceProblems.length > 0) {
+      throw new Error(`App Store compliance check failed with ${complianceProblems.length} problem(s):\n${complianceProblems.map(problem => `  - ${problem}`).join('\n')}`);
+    }
+    console.log(`\n✅ Compliance check passed: ${outputPaths.length} file(s)`);
+    if (cache) {
+      recordWork(cache, 'split', cacheTarget, cacheHash, outputPaths);
     }
 
     console.log('\n✅ Screenshot splitting completed successfully!');
+    return outputPaths;
 
   } catch (error) {
     console.error('Error splitting screenshots:', error);
@@ -151,81 +175,179 @@ async function splitScreenshots(options: SplitterOptions = {}): Promise<void> {
 }
 
 /**
- * Process a single device configuration
+ * Process a single device configuration, returning the paths of the written slot images
  */
 async function processDeviceConfig(
   combinedImage: sharp.Sharp,
   metadata: sharp.Metadata,
   deviceConfig: DeviceConfig,
   outputBasePath: string,
-  locale: string
-): Promise<void> {
+  locale: string,
+  slotCount: number,
+  direction: LayoutDirection,
+  outputSettings: OutputSettings
+): Promise<string[]> {
   const { width: targetWidth, height: targetHeight, outputPath: deviceOutputPath } = deviceConfig;
 
-  // Calculate resize dimensions
-  // We need 4x width to split into quarters
-  const resizedWidth = targetWidth * 4; // 4x the target width
-
-  // Calculate height maintaining aspect ratio
-  const aspectRatio = metadata.height! / metadata.width!;
-  const resizedHeight = Math.round(resizedWidth * aspectRatio);
-
+  // The whole combined image is fitted once and then cut at exact multiples of the target width,
+  // so a device placed across a slot boundary still lines up between neighbouring screenshots
+  const fit = getPanoramaFit(metadata.width!, metadata.height!, slotCount, targetWidth, targetHeight, outputSettings);
   console.log(`  Target dimensions: ${targetWidth}x${targetHeight}`);
-  console.log(`  Resize to: ${resizedWidth}x${resizedHeight} (maintain aspect ratio)`);
-
-  // Resize the image
-  let finalImage = combinedImage.resize(resizedWidth, resizedHeight, {
-    fit: 'fill',
-    position: 'center'
-  });
-
-  // Track final dimensions
-  let finalWidth = resizedWidth;
-  let finalHeight = resizedHeight;
-
-  // If height is greater than target, crop from bottom
-  if (resizedHeight > targetHeight) {
-    console.log(`  Cropping height from ${resizedHeight} to ${targetHeight}`);
-    finalImage = finalImage.extract({
-      left: 0,
-      top: 0,
-      width: resizedWidth,
-      height: targetHeight
-    });
-    finalHeight = targetHeight;
-  }
-
-  console.log(`  Final image dimensions: ${finalWidth}x${finalHeight}`);
+  console.log(`  Scaled to: ${fit.width}x${fit.height} (${outputSettings.fit}, anchored ${outputSettings.anchor})`);
+  const { data, info } = await fitPanorama(combinedImage.clone(), fit, slotCount * targetWidth, targetHeight, outputSettings)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const panorama = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
 
   // Create output directory
   const outputDir = path.join(outputBasePath, deviceOutputPath, locale);
   await fs.mkdir(outputDir, { recursive: true });
 
-  // Split into 4 equal parts
-  const quarterWidth = targetWidth;
+  const outputPaths: string[] = [];
 
-  for (let i = 0; i < 4; i++) {
+  const extension = OUTPUT_EXTENSIONS[outputSettings.format];
+  for (let i = 0; i < slotCount; i++) {
     const slotNumber = i + 1;
-    const outputPath = path.join(outputDir, `slot_${slotNumber}.png`);
-
-    console.log(`  Creating slot_${slotNumber}.png...`);
-
-    // Extract the quarter
-    const left = i * quarterWidth;
-    const extractedImage = await finalImage
-      .extract({
-        left: left,
-        top: 0,
-        width: quarterWidth,
-        height: finalHeight
-      })
+    const outputPath = path.join(outputDir, `slot_${slotNumber}${extension}`);
+
+    console.log(`  Creating slot_${slotNumber}${extension}...`);
+
+    // Extract the slot; slots are numbered from the right edge in right-to-left layouts
+    const position = direction === 'rtl' ? slotCount - 1 - i : i;
+    const extractedImage = await panorama.clone()
+      .extract({ left: position * targetWidth, top: 0, width: targetWidth, height: targetHeight })
       .png()
       .toBuffer();
 
-    // Save the individual screenshot
-    await sharp(extractedImage).toFile(outputPath);
+    // Save the individual screenshot, removing one left over from a run with another format
+    await removeOtherFormats(outputDir, `slot_${slotNumber}`, extension);
+    await encodeOutput(sharp(extractedImage), outputSettings).toFile(outputPath);
     console.log(`    ✅ Saved to: ${outputPath}`);
+    outputPaths.push(outputPath);
+  }
+
+  return outputPaths;
+}
+
+/**
+ * How the combined image is scaled and placed to make the row of output screenshots
+ */
+interface PanoramaFit {
+  /** Output pixels per combined image pixel */
+  scale: number;
+  /** Size of the scaled combined image */
+  width: number;
+  height: number;
+  /** Position of the scaled combined image in the row of outputs: negative where it is cropped, positive where it is padded */
+  left: number;
+  top: number;
+}
+
+/**
+ * Works out how the combined image fits a row of slotCount outputs of width x height.
+ * "crop" scales it to cover the row and crops the overflow at the anchor's opposite side(s);
+ * "extend" scales it to fit inside and pads the rest. Horizontal overflow or padding only
+ * ever happens at the outer edges of the row, split evenly between them.
+ */
+function getPanoramaFit(canvasWidth: number, canvasHeight: number, slotCount: number, width: number, height: number, settings: OutputSettings): PanoramaFit {
+  const rowWidth = slotCount * width;
+  const crop = settings.fit === 'crop';
+  const scale = crop ? Math.max(rowWidth / canvasWidth, height / canvasHeight) : Math.min(rowWidth / canvasWidth, height / canvasHeight);
+  // Rounding must never leave a gap when cropping or overflow the row when extending
+  const limit = crop ? Math.max : Math.min;
+  const scaledWidth = limit(rowWidth, Math.round(canvasWidth * scale));
+  const scaledHeight = limit(height, Math.round(canvasHeight * scale));
+
+  const spareY = height - scaledHeight;
+  const top = settings.anchor === 'top' ? 0 : settings.anchor === 'bottom' ? spareY : Math.trunc(spareY / 2);
+  return { scale, width: scaledWidth, height: scaledHeight, left: Math.trunc((rowWidth - scaledWidth) / 2), top };
+}
+
+/**
+ * Scales and crops or pads the combined image to exactly rowWidth x height, per the fit.
+ * Padding copies or mirrors the image's edges, or fills with a colour.
+ */
+function fitPanorama(image: sharp.Sharp, fit: PanoramaFit, rowWidth: number, height: number, settings: OutputSettings): sharp.Sharp {
+  const scaled = image.resize(fit.width, fit.height, { fit: 'fill' });
+  if (settings.fit === 'crop') {
+    return scaled.extract({ left: -fit.left, top: -fit.top, width: rowWidth, height });
+  }
+  const extendWith = settings.extendWith === 'mirror' || settings.extendWith === 'copy' ? settings.extendWith : 'background';
+  return scaled.extend({
+    top: fit.top,
+    bottom: height - fit.height - fit.top,
+    left: fit.left,
+    right: rowWidth - fit.width - fit.left,
+    extendWith,
+    background: extendWith === 'background' ? settings.extendWith : undefined
+  });
+}
+
+/**
+ * File extension written for each output format
+ */
+const OUTPUT_EXTENSIONS: Record<OutputSettings['format'], string> = {
+  png: '.png',
+  jpeg: '.jpg'
+};
+
+/**
+ * Encodes a slot image the way App Store Connect accepts it: flattened onto an opaque colour,
+ * converted to sRGB, and with either no metadata or only the sRGB ICC profile
+ */
+function encodeOutput(image: sharp.Sharp, settings: OutputSettings): sharp.Sharp {
+  let encoded = image
+    .flatten({ background: settings.flattenColor })
+    .toColourspace('srgb');
+
+  if (settings.metadata === 'icc') {
+    encoded = encoded.withIccProfile('srgb');
+  }
+
+  return settings.format === 'jpeg'
+    ? encoded.jpeg({ quality: settings.quality, chromaSubsampling: '4:4:4' })
+    : encoded.png();
+}
+
+/**
+ * Deletes a slot's files in the other output formats
+ */
+async function removeOtherFormats(outputDir: string, baseName: string, extension: string): Promise<void> {
+  for (const otherExtension of Object.values(OUTPUT_EXTENSIONS).filter(entry => entry !== extension)) {
+    await fs.rm(path.join(outputDir, `${baseName}${otherExtension}`), { force: true });
+  }
+}
+
+/**
+ * Checks a written screenshot against what App Store Connect accepts: the exact output size,
+ * no alpha channel, sRGB, the configured format, and a file size within the limit.
+ * Returns one message per problem.
+ */
+async function checkCompliance(filePath: string, deviceConfig: DeviceConfig, settings: OutputSettings): Promise<string[]> {
+  const problems: string[] = [];
+  const [metadata, stats] = await Promise.all([sharp(filePath).metadata(), fs.stat(filePath)]);
+
+  if (metadata.width !== deviceConfig.width || metadata.height !== deviceConfig.height) {
+    problems.push(`${filePath}: ${metadata.width}x${metadata.height}, expected ${deviceConfig.width}x${deviceConfig.height}`);
+  }
+  if (metadata.hasAlpha) {
+    problems.push(`${filePath}: has an alpha channel`);
+  }
+  if (metadata.space !== 'srgb') {
+    problems.push(`${filePath}: colour space is ${metadata.space}, expected srgb`);
+  }
+  if (metadata.format !== settings.format) {
+    problems.push(`${filePath}: written as ${metadata.format}, expected ${settings.format}`);
+  }
+  if (stats.size > settings.maxFileSize) {
+    problems.push(`${filePath}: ${formatBytes(stats.size)}, over the ${formatBytes(settings.maxFileSize)} limit`);
   }
+
+  return problems;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 /**
@@ -234,9 +356,18 @@ async function processDeviceConfig(
 async function main() {
   const args = process.argv.slice(2);
 
+  // Load the project config (optionally from --config <path>)
+  let config: ProjectConfig;
+  try {
+    config = await loadConfig(takeConfigArg(args));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   // Check for locale and device arguments
   let targetLocale: string | undefined;
-  let targetDevice: 'iphone' | 'ipad' | undefined;
+  let targetDevice: DeviceType | undefined;
 
   const localeIndex = args.indexOf('--locale');
   if (localeIndex !== -1 && args[localeIndex + 1]) {
@@ -256,13 +387,34 @@ async function main() {
     args.splice(deviceIndex, 2); // Remove the --device and its value from args
   }
 
+  // --format overrides the config's output format for this run
+  const formatIndex = args.indexOf('--format');
+  if (formatIndex !== -1 && args[formatIndex + 1]) {
+    const format = args[formatIndex + 1];
+    if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      console.error(`❌ Invalid output format: ${format}. Must be one of: ${OUTPUT_FORMATS.join(', ')}.`);
+      process.exit(1);
+    }
+    config = { ...config, output: { ...config.output, format: format as OutputFormat } };
+    args.splice(formatIndex, 2);
+  }
+
+  if (args[0] === '--list-displays') {
+    console.log('App Store display sizes (use the ID in "outputDevices"):');
+    DISPLAY_SIZES.forEach(display => {
+      const resolutions = display.resolutions.map(([width, height]) => `${width}x${height}`).join(', ');
+      console.log(`  ${display.id.padEnd(16)} ${display.family.padEnd(8)} ${resolutions}`);
+    });
+    return;
+  }
+
   if (args.length === 0) {
     // No arguments - process all available locales or specific locale
     const localeText = targetLocale ? `locale '${targetLocale}'` : 'all available locales';
     console.log(`Splitting screenshots for ${localeText}...`);
 
     try {
-      const allLocales = await getAvailableLocales();
+      const allLocales = await getAvailableLocales(config.paths.translations);
       const locales = targetLocale ? [targetLocale] : allLocales;
 
       // Validate target locale exists
@@ -289,10 +441,10 @@ async function main() {
             console.log(`[${globalIndex}/${locales.length}] Processing locale: ${locale}`);
             const deviceTypeForLog = targetDevice || 'iphone';
             console.log(`Input: 02_input_combined/combined_screenshots/${deviceTypeForLog}/${locale}/combined.png`);
-            console.log(`Output: output/[device]/${locale}/slot_[1-4].png`);
+            console.log(`Output: output/[device]/${locale}/slot_[1-N]${config.output.format === 'jpeg' ? '.jpg' : '.png'}`);
             console.log('');
 
-            await splitScreenshots({ locale, deviceType: targetDevice || 'iphone' });
+            await splitScreenshots({ locale, deviceType: targetDevice || 'iphone', config });
             return { success: true, locale };
           } catch (error) {
             console.error(`❌ Failed to process locale ${locale}:`, error);
@@ -335,11 +487,21 @@ async function main() {
     console.log('  tsx 03_splitter/splitter.ts --locale <locale>         # Process specific locale (iPhone)');
     console.log('  tsx 03_splitter/splitter.ts --device <iphone|ipad>    # Process all locales for specific device');
     console.log('  tsx 03_splitter/splitter.ts --device ipad --locale en # Process specific locale and device');
+    console.log('  tsx 03_splitter/splitter.ts --config <path>           # Use a specific project config file');
+    console.log('  tsx 03_splitter/splitter.ts --format <png|jpeg>       # Override the output format');
+    console.log('  tsx 03_splitter/splitter.ts --list-displays           # List the App Store display sizes');
     console.log('  tsx 03_splitter/splitter.ts --help                    # Show this help');
     console.log('');
     console.log('The tool automatically detects all locales from 00_input/translations/');
     console.log('and processes each locale\'s combined screenshot.');
     console.log('');
+    console.log('Output sizes are set by "outputDevices" in screenshots.config.json, and the file');
+    console.log('format, JPEG quality, metadata and file size limit by "output". Every file is');
+    console.log('checked for its exact size, no alpha channel, sRGB and its file size.');
+    console.log('');
+    console.log('Each combined screenshot is split into one image per slot. The slot count comes');
+    console.log('from the slot_N folders in 00_input/screenshots/[device]/[locale]/ (up to 10).');
+    console.log('');
     console.log('Examples:');
     console.log('  tsx 03_splitter/splitter.ts');
     console.log('');
@@ -347,8 +509,8 @@ async function main() {
     console.log('  02_input_combined/combined_screenshots/[iphone|ipad]/[locale]/combined.png');
     console.log('');
     console.log('Output:');
-    console.log('  output/iphone 6.9 inch (1320x2868)/[locale]/slot_[1-4].png');
-    console.log('  output/ipad 13" (2752x2064)/[locale]/slot_[1-4].png');
+    console.log('  output/iphone 6.9 inch (1320x2868)/[locale]/slot_[1-N].png (or .jpg)');
+    console.log('  output/ipad 13 inch (2752x2064)/[locale]/slot_[1-N].png (or .jpg)');
 
   } else {
     console.log('No additional arguments supported. Use --help for usage information.');
@@ -357,7 +519,8 @@ async function main() {
 }
 
 // Export for use as a module
-export { splitScreenshots };
+export { splitScreenshots, processDeviceConfig, getPanoramaFit, fitPanorama };
+export type { PanoramaFit };
 
 // Run if called directly
 if (require.main === module) {
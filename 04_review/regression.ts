@@ -0,0 +1,316 @@
+import sharp from 'sharp';
+import pixelmatch from 'pixelmatch';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEVICE_TYPES, DeviceType, ProjectConfig, RegressionSettings, loadConfig, takeConfigArg } from '../shared/config';
+
+const OUTPUT_EXTENSIONS = ['.png', '.jpg'];
+
+interface RegressionOptions {
+  /** Locales to check; defaults to every locale in the output and the baseline */
+  locales?: string[];
+  /** Device types to check; defaults to both iPhone and iPad */
+  deviceTypes?: DeviceType[];
+  /** Overrides the configured threshold and allowed share of changed pixels */
+  settings?: Partial<RegressionSettings>;
+  config?: ProjectConfig;
+}
+
+/**
+ * How one screenshot compares to its baseline:
+ * - unchanged: no pixel differs beyond the threshold
+ * - changed: some pixels differ, but no more than maxDiffRatio allows
+ * - regressed: too many pixels differ, or the size changed
+ * - missing: in the baseline but not in the output
+ * - added: in the output but not yet in the baseline
+ */
+export type ComparisonStatus = 'unchanged' | 'changed' | 'regressed' | 'missing' | 'added';
+
+export interface ComparisonResult {
+  /** Path relative to the output and baseline directories */
+  file: string;
+  status: ComparisonStatus;
+  /** Share of pixels that differ beyond the threshold */
+  diffRatio?: number;
+  /** Diff image highlighting the changed pixels, when any changed */
+  diffPath?: string;
+  message?: string;
+}
+
+export interface RegressionReport {
+  results: ComparisonResult[];
+  /** Number of regressed and missing screenshots */
+  regressions: number;
+}
+
+/**
+ * Lists the output screenshots under a directory, as paths relative to it. Only files in the
+ * selected output sizes and locales ([output size]/[locale]/slot_N.png) are included.
+ */
+async function listScreenshots(rootDir: string, outputPaths: string[], locales?: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const outputPath of outputPaths) {
+    let localeDirs: string[];
+    try {
+      localeDirs = await fs.readdir(path.join(rootDir, outputPath));
+    } catch {
+      continue;
+    }
+    for (const locale of localeDirs.filter(entry => !locales || locales.includes(entry))) {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(path.join(rootDir, outputPath, locale));
+      } catch {
+        continue;
+      }
+      files.push(...entries
+        .filter(entry => OUTPUT_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+        .map(entry => path.join(outputPath, locale, entry)));
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Decodes an image to raw RGBA pixels
+ */
+async function readPixels(filePath: string): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(filePath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Compares a screenshot with its baseline pixel by pixel, using pixelmatch's perceptual colour
+ * distance with anti-aliasing detection. A diff image is written when any pixel changed.
+ */
+async function compareScreenshot(file: string, config: ProjectConfig, settings: RegressionSettings): Promise<ComparisonResult> {
+  const baseline = await readPixels(path.join(config.paths.baseline, file));
+  const output = await readPixels(path.join(config.paths.output, file));
+
+  if (baseline.width !== output.width || baseline.height !== output.height) {
+    return {
+      file,
+      status: 'regressed',
+      message: `size changed from ${baseline.width}x${baseline.height} to ${output.width}x${output.height}`
+    };
+  }
+
+  const { width, height } = output;
+  const diff = Buffer.alloc(width * height * 4);
+  const diffPixels = pixelmatch(baseline.data, output.data, diff, width, height, { threshold: settings.threshold });
+  if (diffPixels === 0) {
+    return { file, status: 'unchanged', diffRatio: 0 };
+  }
+
+  const diffPath = path.join(config.paths.diffs, file.replace(/\.[^.]+$/, '.png'));
+  await fs.mkdir(path.dirname(diffPath), { recursive: true });
+  await sharp(diff, { raw: { width, height, channels: 4 } }).png().toFile(diffPath);
+
+  const diffRatio = diffPixels / (width * height);
+  return {
+    file,
+    status: diffRatio > settings.maxDiffRatio ? 'regressed' : 'changed',
+    diffRatio,
+    diffPath,
+    message: `${diffPixels} pixel(s) changed (${formatRatio(diffRatio)})`
+  };
+}
+
+function formatRatio(ratio: number): string {
+  return `${(ratio * 100).toFixed(3)}%`;
+}
+
+/**
+ * Output paths of the selected device types' output sizes
+ */
+function getOutputPaths(config: ProjectConfig, deviceTypes: DeviceType[]): string[] {
+  return config.outputDevices
+    .filter(device => (deviceTypes as string[]).includes(device.family))
+    .map(device => device.outputPath);
+}
+
+/**
+ * Compares the output screenshots against the committed baseline. Diff images of every changed
+ * screenshot are written to the diffs directory, which is cleared first.
+ */
+async function checkRegressions(options: RegressionOptions = {}): Promise<RegressionReport> {
+  const config = options.config ?? await loadConfig();
+  const { deviceTypes = DEVICE_TYPES } = options;
+  const settings: RegressionSettings = { ...config.regression, ...options.settings };
+  const outputPaths = getOutputPaths(config, deviceTypes);
+
+  const baselineFiles = await listScreenshots(config.paths.baseline, outputPaths, options.locales);
+  if (baselineFiles.length === 0) {
+    throw new Error(`No baseline screenshots found in ${config.paths.baseline}. Run with --update to create the baseline from the current output.`);
+  }
+  const outputFiles = await listScreenshots(config.paths.output, outputPaths, options.locales);
+
+  await fs.rm(config.paths.diffs, { recursive: true, force: true });
+
+  const results: ComparisonResult[] = [];
+  for (const file of baselineFiles) {
+    if (!outputFiles.includes(file)) {
+      results.push({ file, status: 'missing', message: 'not in the output' });
+      continue;
+    }
+    results.push(await compareScreenshot(file, config, settings));
+  }
+  for (const file of outputFiles.filter(entry => !baselineFiles.includes(entry))) {
+    results.push({ file, status: 'added', message: 'not in the baseline' });
+  }
+
+  const regressions = results.filter(result => result.status === 'regressed' || result.status === 'missing').length;
+  return { results, regressions };
+}
+
+/**
+ * Replaces the baseline with the current output screenshots. Only the selected output sizes and
+ * locales are replaced; baseline files with no matching output are removed.
+ */
+async function updateBaseline(options: RegressionOptions = {}): Promise<string[]> {
+  const config = options.config ?? await loadConfig();
+  const { deviceTypes = DEVICE_TYPES } = options;
+  const outputPaths = getOutputPaths(config, deviceTypes);
+
+  const outputFiles = await listScreenshots(config.paths.output, outputPaths, options.locales);
+  if (outputFiles.length === 0) {
+    throw new Error(`No output screenshots found in ${config.paths.output}. Build them before updating the baseline.`);
+  }
+
+  const staleFiles = (await listScreenshots(config.paths.baseline, outputPaths, options.locales))
+    .filter(file => !outputFiles.includes(file));
+  for (const file of staleFiles) {
+    await fs.rm(path.join(config.paths.baseline, file));
+    console.log(`🗑️  Removed from baseline: ${file}`);
+  }
+
+  for (const file of outputFiles) {
+    const baselinePath = path.join(config.paths.baseline, file);
+    await fs.mkdir(path.dirname(baselinePath), { recursive: true });
+    await fs.copyFile(path.join(config.paths.output, file), baselinePath);
+  }
+  console.log(`✅ Baseline updated with ${outputFiles.length} screenshot(s) in ${config.paths.baseline}`);
+
+  return outputFiles;
+}
+
+/**
+ * Prints every screenshot that differs from the baseline and a summary
+ */
+function printRegressionReport(report: RegressionReport): void {
+  const icons: Record<ComparisonStatus, string> = { unchanged: '✅', changed: '⚠️ ', regressed: '❌', missing: '❌', added: '⚠️ ' };
+  for (const result of report.results.filter(entry => entry.status !== 'unchanged')) {
+    const diff = result.diffPath ? `\n      diff: ${result.diffPath}` : '';
+    console.log(`  ${icons[result.status]} [${result.status}] ${result.file}: ${result.message}${diff}`);
+  }
+
+  const count = (status: ComparisonStatus) => report.results.filter(result => result.status === status).length;
+  console.log(`\nCompared ${report.results.length} screenshot(s): ${count('unchanged')} unchanged, ${count('changed')} within tolerance, ${count('regressed')} regressed, ${count('missing')} missing, ${count('added')} new`);
+  if (count('added') > 0) {
+    console.log('⚠️  New screenshots are not checked until they are added to the baseline with --update');
+  }
+  if (report.regressions > 0) {
+    console.log(`❌ ${report.regressions} visual regression(s)`);
+  } else {
+    console.log('✅ No visual regressions');
+  }
+}
+
+function parseRatio(flag: string, value: string | undefined): number {
+  const ratio = Number(value);
+  if (value === undefined || !Number.isFinite(ratio) || ratio < 0 || ratio > 1) {
+    console.error(`❌ ${flag} must be a number between 0 and 1. Use --help for usage information.`);
+    process.exit(1);
+  }
+  return ratio;
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log('App Store Screenshot Visual Regression Check');
+    console.log('');
+    console.log('Compares the output screenshots against the committed baseline with a perceptual pixel diff.');
+    console.log('Writes a diff image for every changed screenshot and exits non-zero on regressions.');
+    console.log('');
+    console.log('Usage:');
+    console.log('  tsx 04_review/regression.ts                                  # Compare all locales for iPhone and iPad');
+    console.log('  tsx 04_review/regression.ts --update                         # Replace the baseline with the current output');
+    console.log('  tsx 04_review/regression.ts --locale <locale[,locale...]>    # Check specific locale(s)');
+    console.log('  tsx 04_review/regression.ts --device <iphone|ipad>           # Check a single device type');
+    console.log('  tsx 04_review/regression.ts --threshold <0-1>                # Per-pixel colour difference ignored (default from config)');
+    console.log('  tsx 04_review/regression.ts --max-diff-ratio <0-1>           # Share of changed pixels allowed (default from config)');
+    console.log('  tsx 04_review/regression.ts --config <path>                  # Use a specific project config file');
+    console.log('  tsx 04_review/regression.ts --help                           # Show this help');
+    console.log('');
+    console.log('Examples:');
+    console.log('  npm run build:force && npm run regression');
+    console.log('  npm run regression:update');
+    return;
+  }
+
+  let config: ProjectConfig;
+  try {
+    config = await loadConfig(takeConfigArg(args));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const options: RegressionOptions = { config, settings: {} };
+  let update = false;
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === '--locale' || args[i] === '--device') && !args[i + 1]) {
+      console.error(`❌ Missing value for ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    } else if (args[i] === '--locale') {
+      options.locales = args[i + 1].split(',');
+      i++;
+    } else if (args[i] === '--device') {
+      if (!DEVICE_TYPES.includes(args[i + 1] as DeviceType)) {
+        console.error(`❌ Invalid device type: ${args[i + 1]}. Must be 'iphone' or 'ipad'.`);
+        process.exit(1);
+      }
+      options.deviceTypes = [args[i + 1] as DeviceType];
+      i++;
+    } else if (args[i] === '--threshold') {
+      options.settings!.threshold = parseRatio(args[i], args[i + 1]);
+      i++;
+    } else if (args[i] === '--max-diff-ratio') {
+      options.settings!.maxDiffRatio = parseRatio(args[i], args[i + 1]);
+      i++;
+    } else if (args[i] === '--update') {
+      update = true;
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    if (update) {
+      await updateBaseline(options);
+      return;
+    }
+    const report = await checkRegressions(options);
+    printRegressionReport(report);
+    if (report.regressions > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Regression check failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Export for use as a module
+export { checkRegressions, updateBaseline, printRegressionReport };
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
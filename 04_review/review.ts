@@ -0,0 +1,390 @@
+import sharp from 'sharp';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { findImageFiles } from '../01_input_framed/framer';
+import { Caption, getAvailableLocales, loadCaptions } from '../02_input_combined/combiner';
+import { DEVICE_TYPES, DeviceConfig, DeviceType, Orientation, ProjectConfig, getOrientation, loadConfig, resolveSettings, takeConfigArg } from '../shared/config';
+import { configureFonts, getFontFamilyList } from '../shared/fonts';
+import { getImageSize } from '../shared/images';
+import { resolveSlotCount } from '../shared/slots';
+
+// Contact sheet layout, in pixels
+const THUMB_WIDTH = 200;
+const LABEL_WIDTH = 150;
+const CAPTION_HEIGHT = 44;
+const GAP = 16;
+const HEADER_HEIGHT = 70;
+const CAPTION_FONT_SIZE = 14;
+const CAPTION_CHARS_PER_LINE = 26;
+
+const MISSING_COLOR = '#ff453a';
+
+interface ReviewOptions {
+  /** Locales to review; defaults to every locale in the translations directory */
+  locales?: string[];
+  /** Device types to review; defaults to both iPhone and iPad */
+  deviceTypes?: DeviceType[];
+  /** Targets that failed to build, flagged on the page and the contact sheets */
+  failures?: ReviewFailure[];
+  config?: ProjectConfig;
+}
+
+export interface ReviewFailure {
+  deviceType: DeviceType;
+  locale: string;
+  message: string;
+}
+
+export interface ReviewResult {
+  /** The review page */
+  htmlPath: string;
+  /** One contact sheet per output size */
+  sheets: string[];
+  /** Number of missing slots and failed targets flagged */
+  problems: number;
+}
+
+/**
+ * One locale's row on a contact sheet: its captions and the output file of each slot
+ */
+interface ReviewRow {
+  locale: string;
+  captions: Caption[];
+  /** Output file per slot, or undefined when it is missing */
+  files: Array<string | undefined>;
+  /** Why the row's slots can't be trusted, when the target failed or its slots can't be resolved */
+  failure?: string;
+  fontFamily: string;
+}
+
+interface ReviewSheet {
+  device: DeviceConfig;
+  rows: ReviewRow[];
+  columns: number;
+}
+
+/**
+ * Works out a set's orientation from its setting, else from its first screenshot
+ */
+async function getSetOrientation(config: ProjectConfig, deviceType: DeviceType, locale: string): Promise<Orientation | undefined> {
+  const setting = resolveSettings(config, deviceType, locale).frame.orientation;
+  if (setting !== 'auto') {
+    return setting;
+  }
+  const [firstScreenshot] = (await findImageFiles(path.join(config.paths.screenshots, deviceType, locale))).sort();
+  if (!firstScreenshot) {
+    return undefined;
+  }
+  const size = await getImageSize(firstScreenshot);
+  return getOrientation(size.width, size.height);
+}
+
+/**
+ * Finds a slot's output file in either output format
+ */
+function findOutputFile(config: ProjectConfig, device: DeviceConfig, locale: string, slot: number): string | undefined {
+  return ['.png', '.jpg']
+    .map(extension => path.join(config.paths.output, device.outputPath, locale, `slot_${slot}${extension}`))
+    .find(file => existsSync(file));
+}
+
+/**
+ * Collects the rows of every output size's contact sheet. A locale only appears on the sizes
+ * matching its set's orientation; sizes no locale matches are left out.
+ */
+async function collectSheets(config: ProjectConfig, deviceTypes: DeviceType[], locales: string[], failures: ReviewFailure[]): Promise<ReviewSheet[]> {
+  const sheets: ReviewSheet[] = [];
+
+  for (const deviceType of deviceTypes) {
+    const orientations = new Map<string, Orientation | undefined>();
+    for (const locale of locales) {
+      orientations.set(locale, await getSetOrientation(config, deviceType, locale));
+    }
+
+    for (const device of config.outputDevices.filter(entry => entry.family === deviceType)) {
+      const deviceOrientation = getOrientation(device.width, device.height);
+      const rows: ReviewRow[] = [];
+
+      for (const locale of locales.filter(entry => (orientations.get(entry) ?? deviceOrientation) === deviceOrientation)) {
+        const failure = failures.find(entry => entry.deviceType === deviceType && entry.locale === locale)?.message;
+        const fontFamily = getFontFamilyList(resolveSettings(config, deviceType, locale).fonts);
+        let slotCount: number;
+        try {
+          slotCount = await resolveSlotCount(deviceType, locale, { screenshotsPath: config.paths.screenshots, translationsPath: config.paths.translations });
+        } catch (error) {
+          rows.push({ locale, captions: [], files: [], failure: failure ?? (error as Error).message, fontFamily });
+          continue;
+        }
+
+        let captions: Caption[] = [];
+        try {
+          captions = await loadCaptions(locale, slotCount, config.paths.translations);
+        } catch (error) {
+          rows.push({ locale, captions: [], files: [], failure: failure ?? (error as Error).message, fontFamily });
+          continue;
+        }
+
+        const files = Array.from({ length: slotCount }, (_, index) => findOutputFile(config, device, locale, index + 1));
+        rows.push({ locale, captions, files, failure, fontFamily });
+      }
+
+      if (rows.length > 0) {
+        sheets.push({ device, rows, columns: Math.max(1, ...rows.map(row => row.files.length)) });
+      }
+    }
+  }
+
+  return sheets;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Splits a caption into at most two lines of CAPTION_CHARS_PER_LINE characters, breaking at
+ * spaces where there are any and ending with an ellipsis when it doesn't fit
+ */
+function wrapCaption(text: string): string[] {
+  const lines: string[] = [];
+  let rest = text.trim();
+  while (rest.length > 0 && lines.length < 2) {
+    if (rest.length <= CAPTION_CHARS_PER_LINE) {
+      lines.push(rest);
+      rest = '';
+      break;
+    }
+    const space = rest.lastIndexOf(' ', CAPTION_CHARS_PER_LINE);
+    const end = space > 0 ? space : CAPTION_CHARS_PER_LINE;
+    lines.push(rest.slice(0, end));
+    rest = rest.slice(end).trim();
+  }
+  if (rest.length > 0) {
+    lines[lines.length - 1] = `${lines[lines.length - 1].slice(0, CAPTION_CHARS_PER_LINE - 1)}…`;
+  }
+  return lines;
+}
+
+/**
+ * Renders one output size's contact sheet: a row per locale with each slot's thumbnail and
+ * caption, missing slots and failed targets marked in red
+ */
+async function renderContactSheet(sheet: ReviewSheet, outputPath: string): Promise<void> {
+  const thumbHeight = Math.round(THUMB_WIDTH * sheet.device.height / sheet.device.width);
+  const rowHeight = thumbHeight + CAPTION_HEIGHT + GAP;
+  const width = LABEL_WIDTH + sheet.columns * (THUMB_WIDTH + GAP) + GAP;
+  const height = HEADER_HEIGHT + sheet.rows.length * rowHeight + GAP;
+
+  const svg: string[] = [
+    `<text x="${GAP}" y="32" font-family="sans-serif" font-size="22" font-weight="bold" fill="#f2f2f7">${escapeXml(`${sheet.device.name} (${sheet.device.width}x${sheet.device.height})`)}</text>`
+  ];
+  for (let column = 0; column < sheet.columns; column++) {
+    svg.push(`<text x="${LABEL_WIDTH + column * (THUMB_WIDTH + GAP) + THUMB_WIDTH / 2}" y="${HEADER_HEIGHT - 12}" text-anchor="middle" font-family="sans-serif" font-size="14" fill="#8e8e93">slot_${column + 1}</text>`);
+  }
+
+  const thumbnails: sharp.OverlayOptions[] = [];
+  for (const [rowIndex, row] of sheet.rows.entries()) {
+    const top = HEADER_HEIGHT + rowIndex * rowHeight;
+    svg.push(`<text x="${GAP}" y="${top + 24}" font-family="sans-serif" font-size="20" font-weight="bold" fill="${row.failure ? MISSING_COLOR : '#f2f2f7'}">${escapeXml(row.locale)}</text>`);
+    if (row.failure) {
+      svg.push(`<text x="${GAP}" y="${top + 46}" font-family="sans-serif" font-size="14" font-weight="bold" fill="${MISSING_COLOR}">FAILED</text>`);
+    }
+
+    for (let column = 0; column < sheet.columns; column++) {
+      const left = LABEL_WIDTH + column * (THUMB_WIDTH + GAP);
+      const file = row.files[column];
+      if (file) {
+        thumbnails.push({ input: await sharp(file).resize(THUMB_WIDTH, thumbHeight, { fit: 'fill' }).png().toBuffer(), left, top });
+      } else if (column < row.files.length || row.failure) {
+        svg.push(`<rect x="${left}" y="${top}" width="${THUMB_WIDTH}" height="${thumbHeight}" fill="#3a1414" stroke="${MISSING_COLOR}" stroke-width="3"/>`);
+        svg.push(`<text x="${left + THUMB_WIDTH / 2}" y="${top + thumbHeight / 2}" text-anchor="middle" font-family="sans-serif" font-size="18" font-weight="bold" fill="${MISSING_COLOR}">MISSING</text>`);
+      }
+
+      const caption = row.captions[column];
+      if (caption) {
+        wrapCaption(caption.title).forEach((line, lineIndex) => {
+          svg.push(`<text x="${left + THUMB_WIDTH / 2}" y="${top + thumbHeight + 18 + lineIndex * 17}" text-anchor="middle" font-family="${escapeXml(row.fontFamily)}" font-size="${CAPTION_FONT_SIZE}" fill="#d1d1d6">${escapeXml(line)}</text>`);
+        });
+      }
+    }
+  }
+
+  const overlay = Buffer.from(`<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">${svg.join('')}</svg>`);
+  await sharp({ create: { width, height, channels: 3, background: '#1c1c1e' } })
+    .composite([...thumbnails, { input: overlay, left: 0, top: 0 }])
+    .png()
+    .toFile(outputPath);
+}
+
+/**
+ * Renders the review page: per output size, a link to its contact sheet and a table of every
+ * locale's slots with their captions
+ */
+function renderReviewPage(sheets: ReviewSheet[], sheetPaths: string[], reviewDir: string): string {
+  const fileUrl = (file: string) => path.relative(reviewDir, file).split(path.sep).map(encodeURIComponent).join('/');
+
+  const sections = sheets.map((sheet, index) => {
+    const header = Array.from({ length: sheet.columns }, (_, column) => `<th>slot_${column + 1}</th>`).join('');
+    const rows = sheet.rows.map(row => {
+      const cells = Array.from({ length: sheet.columns }, (_, column) => {
+        const file = row.files[column];
+        const caption = row.captions[column];
+        const captionHtml = caption
+          ? `<div class="caption">${escapeXml(caption.title)}${caption.subtitle ? `<br><small>${escapeXml(caption.subtitle)}</small>` : ''}</div>`
+          : '';
+        if (file) {
+          return `<td><a href="${fileUrl(file)}"><img src="${fileUrl(file)}" loading="lazy" alt="${escapeXml(`${row.locale} slot_${column + 1}`)}"></a>${captionHtml}</td>`;
+        }
+        return column < row.files.length || row.failure
+          ? `<td class="missing"><div class="placeholder">MISSING</div>${captionHtml}</td>`
+          : '<td></td>';
+      }).join('');
+      const failure = row.failure ? `<div class="failure">FAILED: ${escapeXml(row.failure)}</div>` : '';
+      return `<tr${row.failure ? ' class="failed"' : ''}><th>${escapeXml(row.locale)}${failure}</th>${cells}</tr>`;
+    }).join('\n');
+
+    return `
+  <section>
+    <h2>${escapeXml(sheet.device.name)} (${sheet.device.width}x${sheet.device.height})</h2>
+    <p><a href="${fileUrl(sheetPaths[index])}">Contact sheet</a></p>
+    <table>
+      <tr><th></th>${header}</tr>
+      ${rows}
+    </table>
+  </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Screenshot review</title>
+  <style>
+    body { font-family: -apple-system, system-ui, sans-serif; background: #1c1c1e; color: #f2f2f7; margin: 24px; }
+    a { color: #0a84ff; }
+    table { border-collapse: separate; border-spacing: 12px; }
+    th { text-align: left; vertical-align: top; }
+    td { vertical-align: top; width: ${THUMB_WIDTH}px; }
+    td img { width: ${THUMB_WIDTH}px; display: block; }
+    .caption { font-size: 13px; color: #d1d1d6; margin-top: 6px; }
+    .placeholder { width: ${THUMB_WIDTH}px; height: ${THUMB_WIDTH}px; display: flex; align-items: center; justify-content: center; border: 3px solid ${MISSING_COLOR}; background: #3a1414; color: ${MISSING_COLOR}; font-weight: bold; box-sizing: border-box; }
+    .failed th, .failure { color: ${MISSING_COLOR}; }
+    .failure { font-size: 12px; font-weight: normal; max-width: 220px; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>Screenshot review</h1>
+  <p>Generated ${escapeXml(new Date().toLocaleString())}</p>
+  ${sections || '<p>No output sizes to review.</p>'}
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes the review artefacts for sign-off: a static HTML page and one PNG contact sheet per
+ * output size, laying out every locale's slots with their locale codes and captions.
+ * Missing slots and failed targets are flagged in red.
+ */
+async function createReview(options: ReviewOptions = {}): Promise<ReviewResult> {
+  const config = options.config ?? await loadConfig();
+  const { deviceTypes = DEVICE_TYPES, failures = [] } = options;
+  const locales = options.locales ?? await getAvailableLocales(config.paths.translations);
+
+  // Captions are drawn with the bundled fonts, as on the combined images
+  configureFonts(config);
+
+  const reviewDir = config.paths.review;
+  await fs.mkdir(reviewDir, { recursive: true });
+
+  const sheets = await collectSheets(config, deviceTypes, locales, failures);
+  const sheetPaths: string[] = [];
+  for (const sheet of sheets) {
+    const sheetPath = path.join(reviewDir, `${sheet.device.outputPath}.png`);
+    await renderContactSheet(sheet, sheetPath);
+    console.log(`✅ Contact sheet saved to: ${sheetPath}`);
+    sheetPaths.push(sheetPath);
+  }
+
+  const htmlPath = path.join(reviewDir, 'index.html');
+  await fs.writeFile(htmlPath, renderReviewPage(sheets, sheetPaths, reviewDir));
+  console.log(`✅ Review page saved to: ${htmlPath}`);
+
+  const problems = sheets.reduce((count, sheet) => count + sheet.rows.reduce(
+    (rowCount, row) => rowCount + (row.failure ? 1 : row.files.filter(file => !file).length), 0), 0);
+  if (problems > 0) {
+    console.warn(`⚠️  ${problems} missing slot(s) or failed target(s) flagged for review`);
+  }
+
+  return { htmlPath, sheets: sheetPaths, problems };
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log('App Store Screenshot Review');
+    console.log('');
+    console.log('Writes a review page and one contact sheet per output size from the split screenshots,');
+    console.log('with every locale\'s slots, locale codes and captions. Missing slots are flagged.');
+    console.log('');
+    console.log('Usage:');
+    console.log('  tsx 04_review/review.ts                                  # Review all locales for iPhone and iPad');
+    console.log('  tsx 04_review/review.ts --locale <locale[,locale...]>    # Review specific locale(s)');
+    console.log('  tsx 04_review/review.ts --device <iphone|ipad>           # Review a single device type');
+    console.log('  tsx 04_review/review.ts --config <path>                  # Use a specific project config file');
+    console.log('  tsx 04_review/review.ts --help                           # Show this help');
+    console.log('');
+    console.log('Output:');
+    console.log('  review/index.html');
+    console.log('  review/[output size].png');
+    return;
+  }
+
+  let config: ProjectConfig;
+  try {
+    config = await loadConfig(takeConfigArg(args));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const options: ReviewOptions = { config };
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === '--locale' || args[i] === '--device') && !args[i + 1]) {
+      console.error(`❌ Missing value for ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    } else if (args[i] === '--locale') {
+      options.locales = args[i + 1].split(',');
+      i++;
+    } else if (args[i] === '--device') {
+      if (!DEVICE_TYPES.includes(args[i + 1] as DeviceType)) {
+        console.error(`❌ Invalid device type: ${args[i + 1]}. Must be 'iphone' or 'ipad'.`);
+        process.exit(1);
+      }
+      options.deviceTypes = [args[i + 1] as DeviceType];
+      i++;
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    await createReview(options);
+  } catch (error) {
+    console.error('❌ Review failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Export for use as a module
+export { createReview };
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
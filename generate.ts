@@ -0,0 +1,323 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FRAMER_BATCH_SIZE, frameScreenshot, findImageFiles } from './01_input_framed/framer';
+import { combineScreenshots, getAvailableLocales, formatTitleFitIssue, TitleFitIssue } from './02_input_combined/combiner';
+import { splitScreenshots } from './03_splitter/splitter';
+import { DEVICE_TYPES, DeviceType, ProjectConfig, loadConfig, takeConfigArg } from './shared/config';
+import { configureFonts } from './shared/fonts';
+import { printValidationReport, validateScreenshots } from './shared/validation';
+import { BuildCache, CacheEvent, CacheStage, loadBuildCache, saveBuildCache } from './shared/cache';
+import { ReviewResult, createReview } from './04_review/review';
+import { parseSlotNumber } from './shared/slots';
+
+type Stage = 'frame' | 'combine' | 'split';
+
+export interface GenerateOptions {
+  /** Locales to build; defaults to every locale in 00_input/translations/ */
+  locales?: string[];
+  /** Device types to build; defaults to both iPhone and iPad */
+  deviceTypes?: DeviceType[];
+  /** Project config; defaults to loading screenshots.config.json */
+  config?: ProjectConfig;
+  /** Path of a config file to load when config is not given */
+  configPath?: string;
+  /** Build even when the screenshot validation finds errors */
+  skipValidation?: boolean;
+  /** Redo every stage, even where the build cache says the inputs haven't changed */
+  force?: boolean;
+  /** Write the review page and contact sheets once the build is done */
+  review?: boolean;
+}
+
+export interface StageError {
+  stage: Stage;
+  message: string;
+  /** The input file that failed, when the error is specific to one file */
+  inputPath?: string;
+}
+
+export interface TargetResult {
+  deviceType: DeviceType;
+  locale: string;
+  success: boolean;
+  framed: string[];
+  combined?: string;
+  outputs: string[];
+  errors: StageError[];
+  /** Titles that had to be shrunk or truncated to fit */
+  titleFitIssues: TitleFitIssue[];
+}
+
+export interface GenerateResult {
+  success: boolean;
+  targets: TargetResult[];
+  /** What each stage redid or reused from the build cache */
+  cacheEvents: CacheEvent[];
+  /** The review artefacts, when a review was requested */
+  review?: ReviewResult;
+}
+
+/**
+ * Removes the framed slot folders that none of this build's screenshots were framed into,
+ * so a slot removed from the input doesn't leave its framed screenshot behind for the combiner
+ */
+async function removeStaleFramedSlots(framedDir: string, framedPaths: string[]): Promise<void> {
+  const keptDirs = new Set(framedPaths.map(framedPath => path.resolve(path.dirname(framedPath))));
+  const entries = await fs.readdir(framedDir, { withFileTypes: true }).catch(() => []);
+
+  for (const entry of entries) {
+    const slotDir = path.resolve(framedDir, entry.name);
+    if (entry.isDirectory() && parseSlotNumber(entry.name) !== undefined && !keptDirs.has(slotDir)) {
+      await fs.rm(slotDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Runs frame -> combine -> split for one device type and locale.
+ * A failing stage is recorded and the later stages are skipped.
+ */
+async function generateTarget(deviceType: DeviceType, locale: string, config: ProjectConfig, cache: BuildCache): Promise<TargetResult> {
+  const result: TargetResult = { deviceType, locale, success: false, framed: [], outputs: [], errors: [], titleFitIssues: [] };
+
+  // Frame every screenshot for this device and locale, in batches to bound memory use
+  const screenshotsDir = path.join(config.paths.screenshots, deviceType, locale);
+  const inputPaths = await findImageFiles(screenshotsDir);
+  if (inputPaths.length === 0) {
+    // Combining now would pick up framed screenshots left over from an earlier build
+    result.errors.push({ stage: 'frame', message: `No screenshots found in ${screenshotsDir}` });
+    return result;
+  }
+
+  for (let i = 0; i < inputPaths.length; i += FRAMER_BATCH_SIZE) {
+    const frameResults = await Promise.all(
+      inputPaths.slice(i, i + FRAMER_BATCH_SIZE).map(async (inputPath) => {
+        try {
+          return { inputPath, outputPath: await frameScreenshot({ inputPath, deviceType, locale, config, cache }) };
+        } catch (error) {
+          return { inputPath, error };
+        }
+      })
+    );
+
+    for (const frameResult of frameResults) {
+      if (frameResult.outputPath) {
+        result.framed.push(frameResult.outputPath);
+      } else {
+        result.errors.push({ stage: 'frame', message: errorMessage(frameResult.error), inputPath: frameResult.inputPath });
+      }
+    }
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+  await removeStaleFramedSlots(path.join(config.paths.framed, deviceType, locale), result.framed);
+
+  // Combine the framed screenshots over the background
+  try {
+    result.combined = await combineScreenshots({
+      deviceType,
+      locale,
+      config,
+      cache,
+      onTitleFit: issue => result.titleFitIssues.push(issue)
+    });
+  } catch (error) {
+    result.errors.push({ stage: 'combine', message: errorMessage(error) });
+    return result;
+  }
+
+  // Split the combined image into App Store sized slots
+  try {
+    result.outputs = await splitScreenshots({ deviceType, locale, config, cache });
+  } catch (error) {
+    result.errors.push({ stage: 'split', message: errorMessage(error) });
+    return result;
+  }
+
+  result.success = true;
+  return result;
+}
+
+/**
+ * Runs the whole pipeline for the selected locales and device types in one process
+ */
+async function generate(options: GenerateOptions = {}): Promise<GenerateResult> {
+  const { deviceTypes = DEVICE_TYPES } = options;
+  const config = options.config ?? await loadConfig(options.configPath);
+  configureFonts(config);
+
+  const availableLocales = await getAvailableLocales(config.paths.translations);
+  const locales = options.locales ?? availableLocales;
+
+  const unknownLocales = locales.filter(locale => !availableLocales.includes(locale));
+  if (unknownLocales.length > 0) {
+    throw new Error(`Locale(s) not found: ${unknownLocales.join(', ')}. Available locales: ${availableLocales.join(', ')}`);
+  }
+
+  const unknownDevices = deviceTypes.filter(deviceType => !DEVICE_TYPES.includes(deviceType));
+  if (unknownDevices.length > 0) {
+    throw new Error(`Invalid device type(s): ${unknownDevices.join(', ')}. Must be 'iphone' or 'ipad'.`);
+  }
+
+  // Report every input problem up front, before anything is rendered
+  console.log('Validating screenshots...');
+  const report = await validateScreenshots(config, deviceTypes, locales);
+  printValidationReport(report);
+  const validationErrors = report.issues.filter(issue => issue.severity === 'error').length;
+  if (validationErrors > 0) {
+    if (!options.skipValidation) {
+      throw new Error(`Screenshot validation found ${validationErrors} error(s). Fix them or pass --skip-validation to build anyway.`);
+    }
+    console.log('⚠️  Building anyway (--skip-validation)');
+  }
+
+  // Work whose inputs are unchanged since the last run is skipped unless forced
+  const cache = await loadBuildCache(config.paths.cache, options.force);
+
+  // Targets run one after another; each stage already parallelises internally through sharp
+  const targets: TargetResult[] = [];
+  try {
+    for (const deviceType of deviceTypes) {
+      for (const locale of locales) {
+        console.log(`\n=== Building ${deviceType}/${locale} ===`);
+        targets.push(await generateTarget(deviceType, locale, config, cache));
+      }
+    }
+  } finally {
+    await saveBuildCache(cache);
+  }
+
+  // Lay out what was built for sign-off, flagging the targets that failed
+  let review: ReviewResult | undefined;
+  if (options.review) {
+    console.log('\nWriting review...');
+    const failures = targets
+      .filter(target => !target.success)
+      .map(target => ({
+        deviceType: target.deviceType,
+        locale: target.locale,
+        message: target.errors.map(error => `[${error.stage}] ${error.message}`).join('\n')
+      }));
+    review = await createReview({ config, locales, deviceTypes, failures });
+  }
+
+  return { success: targets.every(target => target.success), targets, cacheEvents: cache.events, review };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Prints a per-target summary of a pipeline run
+ */
+function printSummary(result: GenerateResult): void {
+  console.log('\nBuild summary:');
+  for (const target of result.targets) {
+    const label = `${target.deviceType}/${target.locale}`;
+    if (target.success) {
+      console.log(`  ✅ ${label}: ${target.framed.length} framed, ${target.outputs.length} output file(s)`);
+    } else {
+      console.log(`  ❌ ${label}:`);
+      for (const error of target.errors) {
+        const file = error.inputPath ? ` (${path.basename(error.inputPath)})` : '';
+        console.log(`      [${error.stage}]${file} ${error.message}`);
+      }
+    }
+  }
+
+  const titleFitIssues = result.targets.flatMap(target => target.titleFitIssues);
+  if (titleFitIssues.length > 0) {
+    console.log('\n⚠️  Titles shrunk or truncated to fit:');
+    titleFitIssues.forEach(issue => console.log(`  ${formatTitleFitIssue(issue)}`));
+  }
+
+  // What the build cache let this run skip
+  const stageLabels: Record<CacheStage, string> = { frame: 'framed', combine: 'combined', split: 'split' };
+  const rebuilt = result.cacheEvents.filter(event => event.rebuilt);
+  const reused = result.cacheEvents.length - rebuilt.length;
+  console.log(`\nRebuilt ${rebuilt.length} item(s), ${reused} up to date${rebuilt.length > 0 ? ':' : ''}`);
+  for (const stage of Object.keys(stageLabels) as CacheStage[]) {
+    const targets = rebuilt.filter(event => event.stage === stage).map(event => event.target).sort();
+    if (targets.length > 0) {
+      console.log(`  ${stageLabels[stage]}: ${targets.join(', ')}`);
+    }
+  }
+
+  const failed = result.targets.filter(target => !target.success).length;
+  console.log(`\n  ✅ Succeeded: ${result.targets.length - failed} target(s)`);
+  if (failed > 0) {
+    console.log(`  ❌ Failed: ${failed} target(s)`);
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log('App Store Screenshot Generator');
+    console.log('');
+    console.log('Runs frame -> combine -> split for every selected locale and device.');
+    console.log('');
+    console.log('Usage:');
+    console.log('  tsx generate.ts                                  # Build all locales for iPhone and iPad');
+    console.log('  tsx generate.ts --locale <locale[,locale...]>    # Build specific locale(s)');
+    console.log('  tsx generate.ts --device <iphone|ipad>           # Build a single device type');
+    console.log('  tsx generate.ts --config <path>                  # Use a specific project config file');
+    console.log('  tsx generate.ts --force                          # Rebuild everything, ignoring the build cache');
+    console.log('  tsx generate.ts --skip-validation                # Build even if screenshot validation fails');
+    console.log('  tsx generate.ts --review                         # Also write the review page and contact sheets');
+    console.log('  tsx generate.ts --help                           # Show this help');
+    console.log('');
+    console.log('Examples:');
+    console.log('  tsx generate.ts --locale en,de --device iphone');
+    console.log('  npm run build:locale en');
+    return;
+  }
+
+  const options: GenerateOptions = { configPath: takeConfigArg(args) };
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === '--locale' || args[i] === '--device') && !args[i + 1]) {
+      console.error(`❌ Missing value for ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    } else if (args[i] === '--locale') {
+      options.locales = args[i + 1].split(',');
+      i++;
+    } else if (args[i] === '--device') {
+      options.deviceTypes = [args[i + 1] as DeviceType];
+      i++;
+    } else if (args[i] === '--skip-validation') {
+      options.skipValidation = true;
+    } else if (args[i] === '--force') {
+      options.force = true;
+    } else if (args[i] === '--review') {
+      options.review = true;
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    const result = await generate(options);
+    printSummary(result);
+    if (!result.success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Build failed:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+// Export for use as a module
+export { generate, printSummary };
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
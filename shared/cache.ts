@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Bumped when the manifest layout or what goes into the hashes changes, so old manifests are ignored
+ */
+const CACHE_VERSION = 1;
+
+export type CacheStage = 'frame' | 'combine' | 'split';
+
+/**
+ * The recorded result of one piece of work: the hash of its inputs and the files it wrote
+ */
+interface CacheEntry {
+  hash: string;
+  outputs: string[];
+  /** Anything else the stage needs to report when the work is skipped */
+  details?: unknown;
+}
+
+interface CacheManifest {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Whether one piece of work was redone or reused from the cache
+ */
+export interface CacheEvent {
+  stage: CacheStage;
+  /** What the work was for, e.g. "iphone/en/slot_1" */
+  target: string;
+  rebuilt: boolean;
+}
+
+/**
+ * A build cache manifest loaded into memory. Stages look up and record their work in it;
+ * it is written back with saveBuildCache once the run is done.
+ */
+export interface BuildCache {
+  manifestPath: string;
+  /** Redo all work, but still record it so the next run can skip it */
+  force: boolean;
+  entries: Record<string, CacheEntry>;
+  events: CacheEvent[];
+}
+
+/**
+ * Loads the cache manifest, starting empty when it is missing, unreadable or from another version
+ */
+export async function loadBuildCache(manifestPath: string, force = false): Promise<BuildCache> {
+  let entries: Record<string, CacheEntry> = {};
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as CacheManifest;
+    if (manifest.version === CACHE_VERSION) {
+      entries = manifest.entries;
+    }
+  } catch {
+    // No usable manifest: everything is rebuilt
+  }
+  return { manifestPath, force, entries, events: [] };
+}
+
+/**
+ * Writes the cache manifest
+ */
+export async function saveBuildCache(cache: BuildCache): Promise<void> {
+  const manifest: CacheManifest = { version: CACHE_VERSION, entries: cache.entries };
+  await fs.mkdir(path.dirname(cache.manifestPath), { recursive: true });
+  await fs.writeFile(cache.manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Hashes a piece of work's inputs: the contents of its input files and its settings.
+ * Missing files hash as missing, so creating one later changes the hash.
+ */
+export async function hashInputs(files: string[], settings: unknown): Promise<string> {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(settings) ?? '');
+  for (const file of files) {
+    hash.update(`\n${file}\n`);
+    try {
+      hash.update(await fs.readFile(file));
+    } catch {
+      hash.update('<missing>');
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Returns the recorded entry when the work's inputs are unchanged and all its outputs still
+ * exist, recording the lookup as reused; otherwise undefined, and the work must be redone
+ */
+export function findCachedWork(cache: BuildCache, stage: CacheStage, target: string, hash: string): CacheEntry | undefined {
+  const entry = cache.entries[`${stage}:${target}`];
+  if (cache.force || !entry || entry.hash !== hash || !entry.outputs.every(output => existsSync(output))) {
+    return undefined;
+  }
+  cache.events.push({ stage, target, rebuilt: false });
+  return entry;
+}
+
+/**
+ * Records redone work and the files it wrote
+ */
+export function recordWork(cache: BuildCache, stage: CacheStage, target: string, hash: string, outputs: string[], details?: unknown): void {
+  cache.entries[`${stage}:${target}`] = { hash, outputs, details };
+  cache.events.push({ stage, target, rebuilt: true });
+}
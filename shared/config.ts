@@ -0,0 +1,1064 @@
+import { existsSync } from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AUTO_FRAME_MODEL, FRAME_FINISH_NAMES, FRAME_MODEL_NAMES, FrameColors, GENERIC_FRAME_MODEL } from './frames';
+import { DEVICE_FAMILIES, DeviceFamily, DisplaySize, DISPLAY_SIZE_IDS, findDisplayByResolution, findDisplaySize } from './devices';
+
+/**
+ * Root of the tool; default paths and the default config file are resolved from here
+ */
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+/**
+ * Config file picked up automatically when no --config flag or SCREENSHOTS_CONFIG is given
+ */
+export const DEFAULT_CONFIG_FILE = path.join(ROOT_DIR, 'screenshots.config.json');
+
+export type DeviceType = 'iphone' | 'ipad';
+
+export const DEVICE_TYPES: DeviceType[] = ['iphone', 'ipad'];
+
+/**
+ * Orientation of a screenshot set; every screenshot and output size in a set shares it
+ */
+export type Orientation = 'portrait' | 'landscape';
+
+export interface FrameSettings {
+  /**
+   * Device frame to draw: a model name from shared/frames.ts, "auto" to pick one from the
+   * screenshot resolution, or "generic" for the rounded rectangle described by the settings below
+   */
+  model: string;
+  /** Colour preset of the body, rim and screen bed: a name from FRAME_FINISHES in shared/frames.ts */
+  finish: string;
+  /** Custom colours replacing parts of the finish */
+  colors: Partial<FrameColors>;
+  /**
+   * Path to a PNG mockup manifest (see shared/frames.ts). When set, the mockup image is
+   * the frame: model, finish and the drawing settings below don't apply.
+   */
+  mockup?: string;
+  /**
+   * Orientation of the screenshots: "auto" takes it from each screenshot's dimensions;
+   * "portrait" or "landscape" rejects screenshots of the other orientation
+   */
+  orientation: Orientation | 'auto';
+  imageBorderRadius: number;
+  frameBorderRadius: number;
+  /**
+   * Uniform margin (in px) between the device outer edge and the screen cutout.
+   * If set, this value takes precedence over screenshotOffset and framePadding
+   * for positioning and frame sizing.
+   */
+  edgeMargin?: number;
+  framePadding: {
+    horizontal: number;
+    vertical: number;
+  };
+  screenshotOffset: {
+    top: number;
+    left: number;
+  };
+  homeIndicator: {
+    width: number;
+    height: number;
+    borderRadius: number;
+    opacity: number;
+  };
+  shadow: {
+    dx: number;
+    dy: number;
+    stdDeviation: number;
+    opacity: number;
+  };
+  /** Replaces the screenshot's status bar with a clean one before framing */
+  statusBar: StatusBarSettings;
+}
+
+export interface StatusBarSettings {
+  enabled: boolean;
+  time: string;
+  /** Battery level in percent */
+  battery: number;
+  /** Cellular signal bars, 0-4 */
+  signal: number;
+  wifi: boolean;
+  /** Text and icon colour, or "auto" for black or white depending on the status bar background */
+  color: string;
+}
+
+/**
+ * Reading direction of the combined panorama and its titles
+ */
+export type LayoutDirection = 'ltr' | 'rtl';
+
+/**
+ * Languages written right to left; their locales get an RTL layout when direction is "auto"
+ */
+export const RTL_LANGUAGES = ['ar', 'he', 'iw', 'fa', 'ur'];
+
+/**
+ * Where a slot's caption goes: in the area above or below the device, or on a banner across it
+ */
+export type CaptionPosition = 'above' | 'below' | 'overlay';
+
+export interface CombineSettings {
+  spacing: number;
+  titleFontSize: number;
+  titleColor: string;
+  titleShadowColor: string;
+  titleShadowOffset: number;
+  titleSpacing: number;
+  /** Titles that don't fit in their lines are shrunk down to this size before being truncated */
+  titleMinFontSize: number;
+  subtitleFontSize: number;
+  subtitleColor: string;
+  /** Gap between a title and its subtitle */
+  subtitleSpacing: number;
+  /** Subtitles that don't fit in their lines are shrunk down to this size before being truncated */
+  subtitleMinFontSize: number;
+  captionPosition: CaptionPosition;
+  /** Fill color of the banner behind overlay captions */
+  bannerColor: string;
+  bannerOpacity: number;
+  /** Vertical centre of the overlay banner as a fraction of the device height (0 = top, 1 = bottom) */
+  bannerPosition: number;
+  /** Space between the banner edges and the caption text */
+  bannerPadding: number;
+  centerInQuarters: boolean;
+  iPhoneScaleFactor: number;
+  iPadScaleFactor: number;
+  /** Slot order and title direction; "auto" is right to left for RTL locales and left to right otherwise */
+  direction: LayoutDirection | 'auto';
+}
+
+/**
+ * Caption typography and placement that can be overridden per locale and per slot
+ */
+export type TitleStyle = Pick<
+  CombineSettings,
+  | 'titleFontSize' | 'titleColor' | 'titleShadowColor' | 'titleShadowOffset' | 'titleSpacing'
+  | 'subtitleFontSize' | 'subtitleColor' | 'subtitleSpacing'
+  | 'captionPosition' | 'bannerColor' | 'bannerOpacity' | 'bannerPosition' | 'bannerPadding'
+>;
+
+/**
+ * Title style overrides keyed by slot, e.g. { "slot_3": { "titleColor": "#ffd60a" } }
+ */
+export type SlotStyles = Record<string, SlotStyle>;
+
+/**
+ * Free placement of a slot's device on the combined canvas. Positions are measured in
+ * slots so they line up with the split boundaries: x = 1 is the line between slot_1 and slot_2.
+ */
+export interface DevicePlacement {
+  /** Horizontal centre of the device, in slots from the left edge (defaults to the centre of its own slot) */
+  x?: number;
+  /** Vertical offset in px from where the device would normally sit */
+  y?: number;
+  /** Size relative to the device's normal size */
+  scale?: number;
+  /** Clockwise rotation in degrees */
+  rotation?: number;
+}
+
+/**
+ * An image drawn on the combined canvas, free to cross slot boundaries
+ */
+export interface Decoration {
+  /** Image file (PNG/SVG/...), relative to the config file */
+  image: string;
+  /** Horizontal centre, in slots from the left edge */
+  x: number;
+  /** Vertical centre in px from the top of the canvas */
+  y: number;
+  /** Size relative to the image's own size */
+  scale?: number;
+  /** Clockwise rotation in degrees */
+  rotation?: number;
+  /** Draw in front of the devices instead of behind them */
+  front?: boolean;
+}
+
+/**
+ * Per-slot overrides: title style plus an optional free device placement
+ */
+export interface SlotStyle extends Partial<TitleStyle> {
+  placement?: DevicePlacement;
+}
+
+/**
+ * The optional "style" entry of a translations file: locale-wide title style plus per-slot overrides
+ */
+export interface TranslationStyle extends Partial<TitleStyle> {
+  slots?: Record<string, Partial<TitleStyle>>;
+}
+
+export interface DeviceConfig {
+  name: string;
+  width: number;
+  height: number;
+  outputPath: string;
+  /** Device family whose sets are split into this size */
+  family: DeviceFamily;
+  /** ID of the display size the entry came from, e.g. "iphone-6.9" */
+  display?: string;
+}
+
+/**
+ * An "outputDevices" entry in a config file: a display size ID such as "iphone-6.9", a display
+ * size narrowed to one orientation or resolution, or an explicit size. Explicit sizes take
+ * their family from the display size catalogue unless "family" is given.
+ */
+export type OutputDeviceEntry = string | {
+  display?: string;
+  orientation?: Orientation;
+  width?: number;
+  height?: number;
+  name?: string;
+  outputPath?: string;
+  family?: DeviceFamily;
+};
+
+export type OutputFormat = 'png' | 'jpeg';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg'];
+
+export interface OutputSettings {
+  /** File format of the final screenshots; both are written without an alpha channel */
+  format: OutputFormat;
+  /** JPEG quality (1-100) */
+  quality: number;
+  /** Colour transparent pixels are flattened onto, since App Store Connect rejects alpha channels */
+  flattenColor: string;
+  /** Metadata written to the files: "none" strips everything, "icc" embeds only the sRGB profile */
+  metadata: 'none' | 'icc';
+  /** Largest file size (bytes) the compliance check accepts */
+  maxFileSize: number;
+  /**
+   * How a slot is fitted to an output size of another aspect ratio: "crop" covers the output
+   * and crops the overflow, "extend" fits the whole slot and pads the rest
+   */
+  fit: 'crop' | 'extend';
+  /** Which edge of the slot is kept when cropping, or where it sits when extending */
+  anchor: 'top' | 'center' | 'bottom';
+  /** Padding for "extend": "copy" or "mirror" the slot's edges, or a CSS colour */
+  extendWith: string;
+}
+
+export interface RegressionSettings {
+  /** Per-pixel colour difference (0-1) below which a pixel counts as unchanged, measured perceptually */
+  threshold: number;
+  /** Share of a screenshot's pixels (0-1) that may change before it counts as a regression */
+  maxDiffRatio: number;
+}
+
+export type FontScript = 'arabic' | 'hebrew' | 'devanagari' | 'cjk';
+
+export const FONT_SCRIPTS: FontScript[] = ['arabic', 'hebrew', 'devanagari', 'cjk'];
+
+export interface FontSettings {
+  /** Primary title font files (TTF/OTF); each character uses the first file that has a glyph for it */
+  files: string[];
+  /** CSS font-weight titles are rendered with; should match the weight of the font files */
+  weight: number;
+  /** Fallback font files per script, tried after the primary files */
+  fallbacks: Partial<Record<FontScript, string[]>>;
+}
+
+export interface PathSettings {
+  /** Raw screenshots, laid out as [device]/[locale]/slot_N/ */
+  screenshots: string;
+  /** Title translations, one [locale].json per locale */
+  translations: string;
+  /** Background image the framed screenshots are combined over */
+  background: string;
+  /** Output of the framing stage */
+  framed: string;
+  /** Output of the combining stage */
+  combined: string;
+  /** Final App Store sized screenshots */
+  output: string;
+  /** Build cache manifest, used to skip work whose inputs haven't changed */
+  cache: string;
+  /** Review page and contact sheets for signing off a build */
+  review: string;
+  /** Committed output screenshots the visual regression check compares against */
+  baseline: string;
+  /** Diff images written by the visual regression check */
+  diffs: string;
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export interface SettingsOverrides {
+  frame?: DeepPartial<FrameSettings>;
+  combine?: Partial<CombineSettings>;
+  slots?: SlotStyles;
+  fonts?: Partial<FontSettings>;
+  decorations?: Decoration[];
+}
+
+export interface ProjectConfig {
+  paths: PathSettings;
+  frame: FrameSettings;
+  combine: CombineSettings;
+  fonts: FontSettings;
+  /** Output screenshot sizes the combined images are split into */
+  outputDevices: DeviceConfig[];
+  /** File format and App Store compliance settings of the split screenshots */
+  output: OutputSettings;
+  /** How far the output screenshots may drift from the baseline before the regression check fails */
+  regression: RegressionSettings;
+  /** Title style overrides per slot, for every device and locale */
+  slots: SlotStyles;
+  /** Images drawn on the combined canvas, e.g. shapes that continue across slots */
+  decorations: Decoration[];
+  /** Overrides applied on top of frame/combine for one device type */
+  devices: Partial<Record<DeviceType, SettingsOverrides>>;
+  /** Overrides applied on top of frame/combine (and device overrides) for one locale */
+  locales: Record<string, SettingsOverrides>;
+}
+
+/**
+ * Shape of a config file: every section is optional and merged over the defaults
+ */
+export type ProjectConfigFile = Omit<DeepPartial<ProjectConfig>, 'outputDevices' | 'decorations'> & {
+  outputDevices?: OutputDeviceEntry[];
+  decorations?: Decoration[];
+};
+
+export const defaultFrameSettings: FrameSettings = {
+  model: AUTO_FRAME_MODEL,
+  finish: 'black',
+  colors: {},
+  orientation: 'auto',
+  imageBorderRadius: 110,
+  frameBorderRadius: 140,
+  edgeMargin: 30,
+  framePadding: {
+    horizontal: 90, // Horizontal padding for frame (left+right = 80 -> 40 each)
+    vertical: 90   // Vertical padding for frame (top+bottom = 80 -> 40 each)
+  },
+  screenshotOffset: {
+    top: 40,  // Top offset for screenshot positioning (match side gap)
+    left: 40  // Left offset for screenshot positioning
+  },
+  homeIndicator: {
+    width: 200,
+    height: 6,
+    borderRadius: 3,
+    opacity: 0.8
+  },
+  shadow: {
+    dx: 0,
+    dy: 4,
+    stdDeviation: 8,
+    opacity: 0.3
+  },
+  statusBar: {
+    enabled: false,
+    time: '9:41',
+    battery: 100,
+    signal: 4,
+    wifi: true,
+    color: 'auto'
+  }
+};
+
+export const defaultCombineSettings: CombineSettings = {
+  spacing: 50,
+  titleFontSize: 130,
+  titleColor: '#ffffff',
+  titleShadowColor: '#000000',
+  titleShadowOffset: 1,
+  titleSpacing: 100,
+  titleMinFontSize: 80,
+  subtitleFontSize: 70,
+  subtitleColor: '#ffffff',
+  subtitleSpacing: 30,
+  subtitleMinFontSize: 50,
+  captionPosition: 'above',
+  bannerColor: '#000000',
+  bannerOpacity: 0.5,
+  bannerPosition: 0.75,
+  bannerPadding: 40,
+  centerInQuarters: true,
+  iPhoneScaleFactor: 0.9,
+  iPadScaleFactor: 0.86,
+  direction: 'auto'
+};
+
+/**
+ * Output sizes used when the config doesn't list any: the default resolution of each
+ * display size, in portrait and landscape
+ */
+export const defaultOutputDevices: DeviceConfig[] = resolveOutputDevices(['iphone-6.5', 'iphone-6.9', 'ipad-13']);
+
+export const defaultOutputSettings: OutputSettings = {
+  format: 'png',
+  quality: 90,
+  flattenColor: '#ffffff',
+  metadata: 'none',
+  maxFileSize: 10 * 1024 * 1024,
+  fit: 'crop',
+  anchor: 'top',
+  extendWith: 'copy'
+};
+
+export const defaultRegressionSettings: RegressionSettings = {
+  threshold: 0.1,
+  maxDiffRatio: 0.001
+};
+
+const FONTS_DIR = path.join(ROOT_DIR, '00_input/fonts');
+
+export const defaultFonts: FontSettings = {
+  files: [path.join(FONTS_DIR, 'Montserrat-SemiBold.ttf')],
+  weight: 600,
+  fallbacks: {
+    arabic: [path.join(FONTS_DIR, 'NotoSansArabic-SemiBold.ttf')],
+    hebrew: [path.join(FONTS_DIR, 'NotoSansHebrew-SemiBold.ttf')],
+    devanagari: [path.join(FONTS_DIR, 'NotoSansDevanagari-SemiBold.ttf')],
+    cjk: ['JP', 'KR', 'SC', 'TC'].map(variant => path.join(FONTS_DIR, `NotoSans${variant}-SemiBold.ttf`))
+  }
+};
+
+export const defaultPaths: PathSettings = {
+  screenshots: path.join(ROOT_DIR, '00_input/screenshots'),
+  translations: path.join(ROOT_DIR, '00_input/translations'),
+  background: path.join(ROOT_DIR, '00_input/background/bg.png'),
+  framed: path.join(ROOT_DIR, '01_input_framed/framed_screenshots'),
+  combined: path.join(ROOT_DIR, '02_input_combined/combined_screenshots'),
+  output: path.join(ROOT_DIR, 'output'),
+  cache: path.join(ROOT_DIR, '.cache/build-manifest.json'),
+  review: path.join(ROOT_DIR, 'review'),
+  baseline: path.join(ROOT_DIR, 'baseline'),
+  diffs: path.join(ROOT_DIR, 'diffs')
+};
+
+export const defaultConfig: ProjectConfig = {
+  paths: defaultPaths,
+  frame: defaultFrameSettings,
+  combine: defaultCombineSettings,
+  fonts: defaultFonts,
+  outputDevices: defaultOutputDevices,
+  output: defaultOutputSettings,
+  regression: defaultRegressionSettings,
+  slots: {},
+  decorations: [],
+  devices: {},
+  locales: {}
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+type Validator = (value: unknown, at: string, problems: string[]) => void;
+
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function numberRule(options: { min?: number; max?: number; integer?: boolean } = {}): Validator {
+  return (value, at, problems) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push(`${at}: expected a number, got ${describe(value)}`);
+    } else if (options.integer && !Number.isInteger(value)) {
+      problems.push(`${at}: expected a whole number, got ${describe(value)}`);
+    } else if (options.min !== undefined && value < options.min) {
+      problems.push(`${at}: expected a number >= ${options.min}, got ${describe(value)}`);
+    } else if (options.max !== undefined && value > options.max) {
+      problems.push(`${at}: expected a number <= ${options.max}, got ${describe(value)}`);
+    }
+  };
+}
+
+function stringRule(): Validator {
+  return (value, at, problems) => {
+    if (typeof value !== 'string' || value.length === 0) {
+      problems.push(`${at}: expected a non-empty string, got ${describe(value)}`);
+    }
+  };
+}
+
+function booleanRule(): Validator {
+  return (value, at, problems) => {
+    if (typeof value !== 'boolean') {
+      problems.push(`${at}: expected true or false, got ${describe(value)}`);
+    }
+  };
+}
+
+function enumRule(values: string[]): Validator {
+  return (value, at, problems) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      problems.push(`${at}: expected one of ${values.map(entry => `"${entry}"`).join(', ')}, got ${describe(value)}`);
+    }
+  };
+}
+
+function objectRule(fields: Record<string, Validator>, required: string[] = []): Validator {
+  return (value, at, problems) => {
+    if (!isPlainObject(value)) {
+      problems.push(`${at}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const key of required) {
+      if (value[key] === undefined) {
+        problems.push(`${at}.${key}: required setting is missing`);
+      }
+    }
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const validate = fields[key];
+      if (!validate) {
+        problems.push(`${at}.${key}: unknown setting (expected one of: ${Object.keys(fields).join(', ')})`);
+      } else if (fieldValue !== undefined) {
+        validate(fieldValue, `${at}.${key}`, problems);
+      }
+    }
+  };
+}
+
+function arrayRule(item: Validator, options: { minLength?: number } = {}): Validator {
+  return (value, at, problems) => {
+    if (!Array.isArray(value)) {
+      problems.push(`${at}: expected an array, got ${describe(value)}`);
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      problems.push(`${at}: expected at least ${options.minLength} entr${options.minLength === 1 ? 'y' : 'ies'}`);
+    }
+    value.forEach((entry, index) => item(entry, `${at}[${index}]`, problems));
+  };
+}
+
+function recordRule(item: Validator): Validator {
+  return (value, at, problems) => {
+    if (!isPlainObject(value)) {
+      problems.push(`${at}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item(entry, `${at}.${key}`, problems);
+    }
+  };
+}
+
+function slotRecordRule(item: Validator): Validator {
+  return (value, at, problems) => {
+    if (!isPlainObject(value)) {
+      problems.push(`${at}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      if (!/^slot_\d+$/.test(key)) {
+        problems.push(`${at}.${key}: expected a slot key like "slot_1"`);
+      } else {
+        item(entry, `${at}.${key}`, problems);
+      }
+    }
+  };
+}
+
+const frameRule = objectRule({
+  model: enumRule([AUTO_FRAME_MODEL, GENERIC_FRAME_MODEL, ...FRAME_MODEL_NAMES]),
+  finish: enumRule(FRAME_FINISH_NAMES),
+  mockup: stringRule(),
+  orientation: enumRule(['auto', 'portrait', 'landscape']),
+  colors: objectRule({
+    body: arrayRule(stringRule(), { minLength: 1 }),
+    rim: arrayRule(stringRule(), { minLength: 1 }),
+    screen: arrayRule(stringRule(), { minLength: 1 }),
+    bezel: stringRule()
+  }),
+  imageBorderRadius: numberRule({ min: 0 }),
+  frameBorderRadius: numberRule({ min: 0 }),
+  edgeMargin: numberRule({ min: 0 }),
+  framePadding: objectRule({
+    horizontal: numberRule({ min: 0 }),
+    vertical: numberRule({ min: 0 })
+  }),
+  screenshotOffset: objectRule({
+    top: numberRule({ min: 0 }),
+    left: numberRule({ min: 0 })
+  }),
+  homeIndicator: objectRule({
+    width: numberRule({ min: 0 }),
+    height: numberRule({ min: 0 }),
+    borderRadius: numberRule({ min: 0 }),
+    opacity: numberRule({ min: 0, max: 1 })
+  }),
+  shadow: objectRule({
+    dx: numberRule(),
+    dy: numberRule(),
+    stdDeviation: numberRule({ min: 0 }),
+    opacity: numberRule({ min: 0, max: 1 })
+  }),
+  statusBar: objectRule({
+    enabled: booleanRule(),
+    time: stringRule(),
+    battery: numberRule({ min: 0, max: 100 }),
+    signal: numberRule({ min: 0, max: 4, integer: true }),
+    wifi: booleanRule(),
+    color: stringRule()
+  })
+});
+
+const captionPositionFields: Record<string, Validator> = {
+  captionPosition: enumRule(['above', 'below', 'overlay']),
+  bannerColor: stringRule(),
+  bannerOpacity: numberRule({ min: 0, max: 1 }),
+  bannerPosition: numberRule({ min: 0, max: 1 }),
+  bannerPadding: numberRule({ min: 0 })
+};
+
+const combineRule = objectRule({
+  spacing: numberRule({ min: 0, integer: true }),
+  titleFontSize: numberRule({ min: 1 }),
+  titleColor: stringRule(),
+  titleShadowColor: stringRule(),
+  titleShadowOffset: numberRule(),
+  titleSpacing: numberRule({ min: 0 }),
+  titleMinFontSize: numberRule({ min: 1 }),
+  subtitleFontSize: numberRule({ min: 1 }),
+  subtitleColor: stringRule(),
+  subtitleSpacing: numberRule({ min: 0 }),
+  subtitleMinFontSize: numberRule({ min: 1 }),
+  ...captionPositionFields,
+  centerInQuarters: booleanRule(),
+  iPhoneScaleFactor: numberRule({ min: 0.01, max: 1 }),
+  iPadScaleFactor: numberRule({ min: 0.01, max: 1 }),
+  direction: enumRule(['auto', 'ltr', 'rtl'])
+});
+
+const titleStyleFields: Record<string, Validator> = {
+  titleFontSize: numberRule({ min: 1 }),
+  titleColor: stringRule(),
+  titleShadowColor: stringRule(),
+  titleShadowOffset: numberRule(),
+  titleSpacing: numberRule({ min: 0 }),
+  subtitleFontSize: numberRule({ min: 1 }),
+  subtitleColor: stringRule(),
+  subtitleSpacing: numberRule({ min: 0 }),
+  ...captionPositionFields
+};
+
+const placementRule = objectRule({
+  x: numberRule(),
+  y: numberRule(),
+  scale: numberRule({ min: 0.01 }),
+  rotation: numberRule()
+});
+
+const slotStylesRule = slotRecordRule(objectRule({ ...titleStyleFields, placement: placementRule }));
+
+const decorationsRule = arrayRule(objectRule({
+  image: stringRule(),
+  x: numberRule(),
+  y: numberRule(),
+  scale: numberRule({ min: 0.01 }),
+  rotation: numberRule(),
+  front: booleanRule()
+}, ['image', 'x', 'y']));
+
+const outputDeviceFieldsRule = objectRule({
+  display: stringRule(),
+  orientation: enumRule(['portrait', 'landscape']),
+  width: numberRule({ min: 1, integer: true }),
+  height: numberRule({ min: 1, integer: true }),
+  name: stringRule(),
+  outputPath: stringRule(),
+  family: enumRule(DEVICE_FAMILIES)
+});
+
+/**
+ * Validates an outputDevices entry: a known display size ID, or an object picking a size the
+ * display accepts, or an explicit size whose family is known
+ */
+const outputDeviceRule: Validator = (value, at, problems) => {
+  if (typeof value === 'string') {
+    if (!findDisplaySize(value)) {
+      problems.push(`${at}: unknown display size ${describe(value)} (expected one of: ${DISPLAY_SIZE_IDS.join(', ')})`);
+    }
+    return;
+  }
+
+  const fieldProblems = problems.length;
+  outputDeviceFieldsRule(value, at, problems);
+  if (problems.length > fieldProblems || !isPlainObject(value)) {
+    return;
+  }
+
+  const { display: displayId, orientation, width, height, outputPath, family } = value as Exclude<OutputDeviceEntry, string>;
+  if ((width === undefined) !== (height === undefined)) {
+    problems.push(`${at}: width and height must be given together`);
+    return;
+  }
+
+  if (displayId === undefined) {
+    for (const key of ['name', 'width', 'height', 'outputPath']) {
+      if (value[key] === undefined) {
+        problems.push(`${at}.${key}: required setting is missing (or set "display" to a display size ID)`);
+      }
+    }
+    if (orientation !== undefined) {
+      problems.push(`${at}.orientation: only applies to a display size; set width and height instead`);
+    }
+    if (width !== undefined && height !== undefined && !family && !findDisplayByResolution(width, height)) {
+      problems.push(`${at}: ${width}x${height} isn't an App Store display size; set "family" to the device family it's for`);
+    }
+    return;
+  }
+
+  const display = findDisplaySize(displayId);
+  if (!display) {
+    problems.push(`${at}.display: unknown display size ${describe(displayId)} (expected one of: ${DISPLAY_SIZE_IDS.join(', ')})`);
+    return;
+  }
+  if (family !== undefined && family !== display.family) {
+    problems.push(`${at}.family: ${display.id} is an ${display.family} display, got ${describe(family)}`);
+  }
+  if (width !== undefined && height !== undefined && !display.resolutions.some(([w, h]) => w === width && h === height)) {
+    const accepted = display.resolutions.map(([w, h]) => `${w}x${h}`).join(', ');
+    problems.push(`${at}: ${width}x${height} isn't accepted for ${display.id} (accepted: ${accepted})`);
+  } else if (orientation !== undefined && getDisplayResolutions(display, orientation).length === 0) {
+    problems.push(`${at}.orientation: ${display.id} has no ${orientation} screenshots`);
+  } else if (outputPath !== undefined && width === undefined && getDisplayResolutions(display, orientation).length > 1) {
+    problems.push(`${at}.outputPath: only allowed when the entry picks one size; set "orientation" or width and height`);
+  }
+};
+
+// Device placement is layout, not copy, so translations files can only style the titles
+const translationStyleRule = objectRule({
+  ...titleStyleFields,
+  slots: slotRecordRule(objectRule(titleStyleFields))
+});
+
+const fontsRule = objectRule({
+  files: arrayRule(stringRule(), { minLength: 1 }),
+  weight: numberRule({ min: 100, max: 900, integer: true }),
+  fallbacks: objectRule(Object.fromEntries(FONT_SCRIPTS.map(script => [script, arrayRule(stringRule())])))
+});
+
+const overridesRule = objectRule({
+  frame: frameRule,
+  combine: combineRule,
+  slots: slotStylesRule,
+  fonts: fontsRule,
+  decorations: decorationsRule
+});
+
+const configRule = objectRule({
+  paths: objectRule({
+    screenshots: stringRule(),
+    translations: stringRule(),
+    background: stringRule(),
+    framed: stringRule(),
+    combined: stringRule(),
+    output: stringRule(),
+    cache: stringRule(),
+    review: stringRule(),
+    baseline: stringRule(),
+    diffs: stringRule()
+  }),
+  frame: frameRule,
+  combine: combineRule,
+  fonts: fontsRule,
+  outputDevices: arrayRule(outputDeviceRule, { minLength: 1 }),
+  output: objectRule({
+    format: enumRule(OUTPUT_FORMATS),
+    quality: numberRule({ min: 1, max: 100, integer: true }),
+    flattenColor: stringRule(),
+    metadata: enumRule(['none', 'icc']),
+    maxFileSize: numberRule({ min: 1, integer: true }),
+    fit: enumRule(['crop', 'extend']),
+    anchor: enumRule(['top', 'center', 'bottom']),
+    extendWith: stringRule()
+  }),
+  regression: objectRule({
+    threshold: numberRule({ min: 0, max: 1 }),
+    maxDiffRatio: numberRule({ min: 0, max: 1 })
+  }),
+  slots: slotStylesRule,
+  decorations: decorationsRule,
+  devices: objectRule({
+    iphone: overridesRule,
+    ipad: overridesRule
+  }),
+  locales: recordRule(overridesRule)
+});
+
+/**
+ * Validates a parsed config file, returning one message per problem (empty when valid)
+ */
+export function validateConfig(value: unknown): string[] {
+  const problems: string[] = [];
+  configRule(value, 'config', problems);
+  return problems;
+}
+
+/**
+ * Validates the "style" entry of a translations file, returning one message per problem
+ */
+export function validateTranslationStyle(value: unknown): string[] {
+  const problems: string[] = [];
+  translationStyleRule(value, 'style', problems);
+  return problems;
+}
+
+// ---------------------------------------------------------------------------
+// Loading and resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Deep-merges plain objects; arrays and primitives in the override replace the base value
+ */
+function mergeSettings<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) {
+      merged[key] = mergeSettings(merged[key], value);
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Reads a config file. JSON files are parsed; .ts and .js files are required and
+ * may export the config as default or as module.exports.
+ */
+async function readConfigFile(configPath: string): Promise<unknown> {
+  if (configPath.endsWith('.json')) {
+    const raw = await fs.readFile(configPath, 'utf-8');
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid config ${configPath}: ${(error as Error).message}`);
+    }
+  }
+
+  const loaded = require(configPath);
+  return loaded && loaded.default !== undefined ? loaded.default : loaded;
+}
+
+/**
+ * Builds a complete config from a config file's contents. Relative paths are
+ * resolved against baseDir (the directory holding the config file).
+ */
+export function buildConfig(file: ProjectConfigFile, baseDir: string): ProjectConfig {
+  const config = mergeSettings(defaultConfig, file);
+
+  const filePaths = file.paths ?? {};
+  const paths = { ...config.paths };
+  for (const key of Object.keys(filePaths) as Array<keyof PathSettings>) {
+    paths[key] = path.resolve(baseDir, filePaths[key]!);
+  }
+
+  const resolveFonts = <T extends DeepPartial<FontSettings> | undefined>(fonts: T): T => {
+    if (!fonts) {
+      return fonts;
+    }
+    const resolveFiles = (files?: Array<string | undefined>) => files?.map(fontFile => path.resolve(baseDir, fontFile!));
+    const fallbacks = fonts.fallbacks && Object.fromEntries(
+      Object.entries(fonts.fallbacks).map(([script, files]) => [script, resolveFiles(files)])
+    );
+    return { ...fonts, files: resolveFiles(fonts.files), fallbacks };
+  };
+
+  const resolveFrame = <T extends DeepPartial<FrameSettings> | undefined>(frame: T): T =>
+    frame?.mockup ? { ...frame, mockup: path.resolve(baseDir, frame.mockup) } : frame;
+
+  const resolveDecorations = (decorations?: Decoration[]) =>
+    decorations?.map(decoration => ({ ...decoration, image: path.resolve(baseDir, decoration.image) }));
+  const resolveOverrides = (overrides: SettingsOverrides): SettingsOverrides => ({
+    ...overrides,
+    frame: resolveFrame(overrides.frame),
+    fonts: resolveFonts(overrides.fonts),
+    decorations: resolveDecorations(overrides.decorations)
+  });
+
+  // Only paths that came from the file are relative to it; the defaults are already absolute
+  const frame = resolveFrame(config.frame);
+  const outputDevices = file.outputDevices ? resolveOutputDevices(file.outputDevices) : defaultOutputDevices;
+  const fonts = mergeSettings(defaultFonts, resolveFonts(file.fonts));
+  const decorations = resolveDecorations(config.decorations) ?? [];
+  const devices = mapOverrides(config.devices, resolveOverrides);
+  const locales = mapOverrides(config.locales, resolveOverrides);
+
+  return { ...config, paths, frame, outputDevices, fonts, decorations, devices, locales };
+}
+
+function mapOverrides<T extends Partial<Record<string, SettingsOverrides>>>(
+  overrides: T,
+  map: (value: SettingsOverrides) => SettingsOverrides
+): T {
+  return Object.fromEntries(
+    Object.entries<SettingsOverrides | undefined>(overrides).map(([key, value]) => [key, value && map(value)])
+  ) as T;
+}
+
+/**
+ * Loads and validates the project config.
+ *
+ * The config file is taken from, in order: the configPath argument, the
+ * SCREENSHOTS_CONFIG environment variable, then screenshots.config.json in the
+ * tool's root directory. If none exists, the built-in defaults are used.
+ */
+export async function loadConfig(configPath?: string): Promise<ProjectConfig> {
+  const explicitPath = configPath || process.env.SCREENSHOTS_CONFIG;
+  const resolvedPath = path.resolve(explicitPath || DEFAULT_CONFIG_FILE);
+
+  if (!existsSync(resolvedPath)) {
+    if (explicitPath) {
+      throw new Error(`Config file not found: ${resolvedPath}`);
+    }
+    return defaultConfig;
+  }
+
+  const file = await readConfigFile(resolvedPath);
+  const problems = validateConfig(file);
+  if (problems.length > 0) {
+    throw new Error(`Invalid config ${resolvedPath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  return buildConfig(file as ProjectConfigFile, path.dirname(resolvedPath));
+}
+
+/**
+ * Resolves the frame, combine, font and decoration settings for one device type and locale.
+ * A layer's decorations replace the previous list rather than adding to it.
+ * Device overrides are applied first, then locale overrides.
+ */
+export function resolveSettings(
+  config: ProjectConfig,
+  deviceType: DeviceType,
+  locale?: string
+): { frame: FrameSettings; combine: CombineSettings; fonts: FontSettings; decorations: Decoration[] } {
+  const layers = [config.devices[deviceType], locale ? config.locales[locale] : undefined];
+
+  let frame = config.frame;
+  let combine = config.combine;
+  let fonts = config.fonts;
+  let decorations = config.decorations;
+  for (const layer of layers) {
+    frame = mergeSettings(frame, layer?.frame);
+    combine = mergeSettings(combine, layer?.combine);
+    fonts = mergeSettings(fonts, layer?.fonts);
+    decorations = layer?.decorations ?? decorations;
+  }
+
+  return { frame, combine, fonts, decorations };
+}
+
+/**
+ * Lists the output sizes a device type's combined images are split into, optionally
+ * only those of one orientation
+ */
+export function getOutputDevices(config: ProjectConfig, deviceType: DeviceType, orientation?: Orientation): DeviceConfig[] {
+  return config.outputDevices.filter(device =>
+    device.family === deviceType &&
+    (!orientation || getOrientation(device.width, device.height) === orientation)
+  );
+}
+
+/**
+ * The default resolution of each orientation a display size accepts (the first listed),
+ * optionally only one orientation's
+ */
+export function getDisplayResolutions(display: DisplaySize, orientation?: Orientation): Array<[number, number]> {
+  const orientations: Orientation[] = orientation ? [orientation] : ['portrait', 'landscape'];
+  return orientations
+    .map(entry => display.resolutions.find(([width, height]) => getOrientation(width, height) === entry))
+    .filter((resolution): resolution is [number, number] => resolution !== undefined);
+}
+
+/**
+ * Expands config file outputDevices entries into output sizes. A display size ID gives its
+ * default resolution in each orientation it accepts, written to "[display name] (WxH)".
+ */
+export function resolveOutputDevices(entries: OutputDeviceEntry[]): DeviceConfig[] {
+  return entries.flatMap((entry): DeviceConfig[] => {
+    const spec = typeof entry === 'string' ? { display: entry } : entry;
+    if (spec.display === undefined) {
+      const family = spec.family ?? findDisplayByResolution(spec.width!, spec.height!)!.family;
+      return [{ name: spec.name!, width: spec.width!, height: spec.height!, outputPath: spec.outputPath!, family }];
+    }
+
+    const display = findDisplaySize(spec.display)!;
+    const resolutions: Array<[number, number]> = spec.width !== undefined && spec.height !== undefined
+      ? [[spec.width, spec.height]]
+      : getDisplayResolutions(display, spec.orientation);
+    const hasPortrait = getDisplayResolutions(display, 'portrait').length > 0;
+    return resolutions.map(([width, height]) => ({
+      name: spec.name ?? (getOrientation(width, height) === 'landscape' && hasPortrait ? `${display.name} landscape` : display.name),
+      width,
+      height,
+      outputPath: spec.outputPath ?? `${display.name} (${width}x${height})`,
+      family: display.family,
+      display: display.id
+    }));
+  });
+}
+
+/**
+ * Orientation of an image or output size; square counts as portrait
+ */
+export function getOrientation(width: number, height: number): Orientation {
+  return width > height ? 'landscape' : 'portrait';
+}
+
+/**
+ * Resolves a direction setting for a locale: "auto" is right to left when the
+ * locale's language (e.g. "ar" or "he-IL") is written right to left
+ */
+export function resolveDirection(direction: CombineSettings['direction'], locale: string): LayoutDirection {
+  if (direction !== 'auto') {
+    return direction;
+  }
+  // Locales are named like "ar", "he-IL" or "zhCN"; the leading lowercase letters are the language
+  const language = locale.match(/^[a-z]+/)?.[0] ?? '';
+  return RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Resolves the title style and device placement of every slot. Layers are applied in order on top of
+ * base: the config's slots, the device's slots, the locale's slots, then the
+ * slots from the translations file's "style" entry.
+ */
+export function resolveSlotStyles(
+  config: ProjectConfig,
+  deviceType: DeviceType,
+  locale: string,
+  slotCount: number,
+  base: TitleStyle,
+  translationSlots: SlotStyles = {}
+): Array<TitleStyle & SlotStyle> {
+  const layers = [config.slots, config.devices[deviceType]?.slots, config.locales[locale]?.slots, translationSlots];
+
+  return Array.from({ length: slotCount }, (_, index) => {
+    const slotKey = `slot_${index + 1}`;
+    return layers.reduce<TitleStyle & SlotStyle>((style, layer) => mergeSettings(style, layer?.[slotKey]), base);
+  });
+}
+
+/**
+ * Extracts a --config <path> flag from CLI arguments, removing it from args
+ */
+export function takeConfigArg(args: string[]): string | undefined {
+  const configIndex = args.indexOf('--config');
+  if (configIndex === -1 || !args[configIndex + 1]) {
+    return undefined;
+  }
+  const configPath = args[configIndex + 1];
+  args.splice(configIndex, 2); // Remove the --config and its value from args
+  return configPath;
+}
@@ -0,0 +1,117 @@
+import { DeviceType } from './config';
+
+/**
+ * A screenshot resolution produced by real devices and their simulators (portrait, px)
+ */
+export interface KnownResolution {
+  deviceType: DeviceType;
+  width: number;
+  height: number;
+  /** Devices that capture screenshots at this resolution */
+  devices: string[];
+}
+
+export const KNOWN_RESOLUTIONS: KnownResolution[] = [
+  { deviceType: 'iphone', width: 1320, height: 2868, devices: ['iPhone 17 Pro Max', 'iPhone 16 Pro Max'] },
+  { deviceType: 'iphone', width: 1260, height: 2736, devices: ['iPhone Air'] },
+  { deviceType: 'iphone', width: 1206, height: 2622, devices: ['iPhone 17 Pro', 'iPhone 17', 'iPhone 16 Pro'] },
+  { deviceType: 'iphone', width: 1290, height: 2796, devices: ['iPhone 16 Plus', 'iPhone 15 Plus', 'iPhone 15 Pro Max', 'iPhone 14 Pro Max'] },
+  { deviceType: 'iphone', width: 1179, height: 2556, devices: ['iPhone 16', 'iPhone 16e', 'iPhone 15', 'iPhone 15 Pro', 'iPhone 14 Pro'] },
+  { deviceType: 'iphone', width: 1284, height: 2778, devices: ['iPhone 14 Plus', 'iPhone 13 Pro Max', 'iPhone 12 Pro Max'] },
+  { deviceType: 'iphone', width: 1170, height: 2532, devices: ['iPhone 14', 'iPhone 13', 'iPhone 13 Pro', 'iPhone 12', 'iPhone 12 Pro'] },
+  { deviceType: 'iphone', width: 1080, height: 2340, devices: ['iPhone 13 mini', 'iPhone 12 mini'] },
+  { deviceType: 'iphone', width: 1242, height: 2688, devices: ['iPhone 11 Pro Max', 'iPhone XS Max'] },
+  { deviceType: 'iphone', width: 1125, height: 2436, devices: ['iPhone 11 Pro', 'iPhone XS', 'iPhone X'] },
+  { deviceType: 'iphone', width: 828, height: 1792, devices: ['iPhone 11', 'iPhone XR'] },
+  { deviceType: 'iphone', width: 1242, height: 2208, devices: ['iPhone 8 Plus', 'iPhone 7 Plus'] },
+  { deviceType: 'iphone', width: 750, height: 1334, devices: ['iPhone SE (2nd and 3rd generation)', 'iPhone 8'] },
+  { deviceType: 'iphone', width: 640, height: 1136, devices: ['iPhone SE (1st generation)'] },
+  { deviceType: 'ipad', width: 2064, height: 2752, devices: ['iPad Pro 13" (M4 and later)'] },
+  { deviceType: 'ipad', width: 2048, height: 2732, devices: ['iPad Pro 12.9"', 'iPad Air 13"'] },
+  { deviceType: 'ipad', width: 1668, height: 2420, devices: ['iPad Pro 11" (M4 and later)'] },
+  { deviceType: 'ipad', width: 1668, height: 2388, devices: ['iPad Pro 11"'] },
+  { deviceType: 'ipad', width: 1640, height: 2360, devices: ['iPad Air 11"', 'iPad (10th generation and later)'] },
+  { deviceType: 'ipad', width: 1620, height: 2160, devices: ['iPad (9th generation)'] },
+  { deviceType: 'ipad', width: 1488, height: 2266, devices: ['iPad mini (6th generation and later)'] }
+];
+
+/**
+ * Finds the known resolution matching an image in either orientation
+ */
+export function findKnownResolution(width: number, height: number): KnownResolution | undefined {
+  const [short, long] = width <= height ? [width, height] : [height, width];
+  return KNOWN_RESOLUTIONS.find(resolution => resolution.width === short && resolution.height === long);
+}
+
+/**
+ * Describes a resolution with the devices that produce it, e.g. "1320x2868 (iPhone 17 Pro Max, iPhone 16 Pro Max)"
+ */
+export function describeResolution(width: number, height: number): string {
+  const known = findKnownResolution(width, height);
+  return known ? `${width}x${height} (${known.devices.join(', ')})` : `${width}x${height}`;
+}
+
+/**
+ * Device families App Store Connect takes screenshots for. iPhone and iPad are the
+ * pipeline's device types; the others only appear in the display size catalogue.
+ */
+export type DeviceFamily = DeviceType | 'watch' | 'appletv' | 'mac' | 'vision';
+
+export const DEVICE_FAMILIES: DeviceFamily[] = ['iphone', 'ipad', 'watch', 'appletv', 'mac', 'vision'];
+
+/**
+ * A display class App Store Connect accepts screenshots for, e.g. the 6.9" iPhone
+ */
+export interface DisplaySize {
+  /** ID projects pick output sizes by, e.g. "iphone-6.9" */
+  id: string;
+  /** Name of the output folders, e.g. "iphone 6.9 inch" */
+  name: string;
+  family: DeviceFamily;
+  /** Every accepted [width, height], portrait and landscape; the first of each orientation is the default */
+  resolutions: Array<[number, number]>;
+}
+
+/**
+ * Lists each resolution in portrait, then each in landscape
+ */
+function bothOrientations(resolutions: Array<[number, number]>): Array<[number, number]> {
+  return [...resolutions, ...resolutions.map(([width, height]): [number, number] => [height, width])];
+}
+
+export const DISPLAY_SIZES: DisplaySize[] = [
+  { id: 'iphone-6.9', name: 'iphone 6.9 inch', family: 'iphone', resolutions: bothOrientations([[1320, 2868], [1290, 2796], [1260, 2736]]) },
+  { id: 'iphone-6.7', name: 'iphone 6.7 inch', family: 'iphone', resolutions: bothOrientations([[1290, 2796], [1284, 2778]]) },
+  { id: 'iphone-6.5', name: 'iphone 6.5 inch', family: 'iphone', resolutions: bothOrientations([[1242, 2688], [1284, 2778]]) },
+  { id: 'iphone-6.3', name: 'iphone 6.3 inch', family: 'iphone', resolutions: bothOrientations([[1206, 2622], [1179, 2556]]) },
+  { id: 'iphone-6.1', name: 'iphone 6.1 inch', family: 'iphone', resolutions: bothOrientations([[1170, 2532], [1125, 2436], [1080, 2340]]) },
+  { id: 'iphone-5.5', name: 'iphone 5.5 inch', family: 'iphone', resolutions: bothOrientations([[1242, 2208]]) },
+  { id: 'ipad-13', name: 'ipad 13 inch', family: 'ipad', resolutions: bothOrientations([[2064, 2752], [2048, 2732]]) },
+  { id: 'ipad-12.9', name: 'ipad 12.9 inch', family: 'ipad', resolutions: bothOrientations([[2048, 2732]]) },
+  { id: 'ipad-11', name: 'ipad 11 inch', family: 'ipad', resolutions: bothOrientations([[1668, 2420], [1668, 2388], [1640, 2360], [1488, 2266]]) },
+  { id: 'watch-ultra-3', name: 'apple watch ultra 3', family: 'watch', resolutions: [[422, 514]] },
+  { id: 'watch-ultra', name: 'apple watch ultra', family: 'watch', resolutions: [[410, 502]] },
+  { id: 'watch-series-10', name: 'apple watch series 10', family: 'watch', resolutions: [[416, 496]] },
+  { id: 'watch-series-9', name: 'apple watch series 9', family: 'watch', resolutions: [[396, 484]] },
+  { id: 'watch-series-6', name: 'apple watch series 6', family: 'watch', resolutions: [[368, 448]] },
+  { id: 'watch-series-3', name: 'apple watch series 3', family: 'watch', resolutions: [[312, 390]] },
+  { id: 'appletv', name: 'apple tv', family: 'appletv', resolutions: [[3840, 2160], [1920, 1080]] },
+  { id: 'mac', name: 'mac', family: 'mac', resolutions: [[2880, 1800], [2560, 1600], [1440, 900], [1280, 800]] },
+  { id: 'vision-pro', name: 'apple vision pro', family: 'vision', resolutions: [[3840, 2160]] }
+];
+
+export const DISPLAY_SIZE_IDS = DISPLAY_SIZES.map(display => display.id);
+
+/**
+ * Finds a display size by its ID
+ */
+export function findDisplaySize(id: string): DisplaySize | undefined {
+  return DISPLAY_SIZES.find(display => display.id === id);
+}
+
+/**
+ * Finds the first display size that accepts an exact resolution (orientation included)
+ */
+export function findDisplayByResolution(width: number, height: number): DisplaySize | undefined {
+  return DISPLAY_SIZES.find(display => display.resolutions.some(([w, h]) => w === width && h === height));
+}
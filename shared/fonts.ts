@@ -0,0 +1,113 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import opentype from 'opentype.js';
+import { FontSettings, ProjectConfig } from './config';
+
+const fontCache = new Map<string, opentype.Font>();
+
+let configuredFontconfigFile: string | undefined;
+
+/**
+ * Loads a TTF/OTF font file, caching it for later calls
+ */
+export function loadFont(fontPath: string): opentype.Font {
+  let font = fontCache.get(fontPath);
+  if (!font) {
+    if (!existsSync(fontPath)) {
+      throw new Error(`Font file not found: ${fontPath}`);
+    }
+    font = opentype.loadSync(fontPath);
+    fontCache.set(fontPath, font);
+  }
+  return font;
+}
+
+/**
+ * Reads the family name a font file registers with fontconfig, preferring the
+ * typographic family (e.g. "Montserrat" rather than "Montserrat SemiBold")
+ */
+export function getFontFamily(fontPath: string): string {
+  const names = loadFont(fontPath).names as opentype.FontNames & { preferredFamily?: opentype.LocalizedName };
+  const family = names.preferredFamily ?? names.fontFamily;
+  return family.en ?? Object.values(family)[0];
+}
+
+/**
+ * Lists the font files in fallback order: the primary files, then each script's fallbacks
+ */
+export function getFontFiles(fonts: FontSettings): string[] {
+  return [...fonts.files, ...Object.values(fonts.fallbacks).flat()];
+}
+
+/**
+ * Builds the CSS font-family value for the fonts, in the same order they are measured with
+ */
+export function getFontFamilyList(fonts: FontSettings): string {
+  const families = Array.from(new Set(getFontFiles(fonts).map(getFontFamily)));
+  return families.map(family => `'${family.replace(/'/g, "\\'")}'`).join(', ');
+}
+
+/**
+ * Collects every font file referenced by the config, including device and locale overrides
+ */
+function collectFontFiles(config: ProjectConfig): string[] {
+  const overrides = [...Object.values(config.devices), ...Object.values(config.locales)];
+  const files = [
+    ...getFontFiles(config.fonts),
+    ...overrides.flatMap(override => [
+      ...(override?.fonts?.files ?? []),
+      ...Object.values(override?.fonts?.fallbacks ?? {}).flat()
+    ])
+  ];
+  return Array.from(new Set(files as string[]));
+}
+
+/**
+ * Points fontconfig (used by librsvg inside sharp) at the config's font directories only,
+ * so titles render with the bundled fonts on every machine and never with system fonts.
+ * Must run before sharp renders the first SVG containing text; fontconfig reads its
+ * configuration once per process.
+ */
+export function configureFonts(config: ProjectConfig): void {
+  const fontFiles = collectFontFiles(config);
+  const missing = fontFiles.filter(fontFile => !existsSync(fontFile));
+  if (missing.length > 0) {
+    throw new Error(`Font file(s) not found:\n${missing.map(fontFile => `  - ${fontFile}`).join('\n')}`);
+  }
+
+  const fontDirs = Array.from(new Set(fontFiles.map(fontFile => path.dirname(fontFile)))).sort();
+  const hash = createHash('sha1').update(fontDirs.join('\n')).digest('hex').slice(0, 12);
+  const configDir = path.join(os.tmpdir(), 'app-store-screenshots', `fontconfig-${hash}`);
+  const fontconfigFile = path.join(configDir, 'fonts.conf');
+
+  if (configuredFontconfigFile === fontconfigFile) {
+    return;
+  }
+  if (configuredFontconfigFile) {
+    console.warn('Warning: font directories changed after fonts were configured; fontconfig may keep using the previous fonts until the process restarts.');
+  }
+
+  const fontconfigXml = `<?xml version="1.0"?>
+<!DOCTYPE fontconfig SYSTEM "fonts.dtd">
+<fontconfig>
+${fontDirs.map(dir => `  <dir>${escapeXml(dir)}</dir>`).join('\n')}
+  <cachedir>${escapeXml(path.join(configDir, 'cache'))}</cachedir>
+  <match target="font">
+    <edit name="antialias" mode="assign"><bool>true</bool></edit>
+    <edit name="hinting" mode="assign"><bool>false</bool></edit>
+    <edit name="rgba" mode="assign"><const>none</const></edit>
+  </match>
+</fontconfig>
+`;
+
+  mkdirSync(configDir, { recursive: true });
+  writeFileSync(fontconfigFile, fontconfigXml);
+  process.env.FONTCONFIG_FILE = fontconfigFile;
+  configuredFontconfigFile = fontconfigFile;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,458 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DeviceType, FrameSettings } from './config';
+
+/**
+ * Frame setting values besides model names: pick a model from the screenshot
+ * resolution, or draw the plain rounded rectangle from the frame settings
+ */
+export const AUTO_FRAME_MODEL = 'auto';
+export const GENERIC_FRAME_MODEL = 'generic';
+
+/**
+ * How close (relative difference) a screenshot's aspect ratio must be to a model's
+ * to be framed with it when no resolution matches exactly
+ */
+const ASPECT_TOLERANCE = 0.015;
+
+/**
+ * Camera cutout drawn over the top of the screen, or a lens in the bezel
+ */
+export type FrameCutout =
+  | { type: 'dynamic-island'; width: number; height: number; top: number }
+  | { type: 'notch'; width: number; height: number; radius: number }
+  | { type: 'camera'; edge: 'top' | 'right'; diameter: number; offset?: number }
+  | { type: 'none' };
+
+/**
+ * Hardware button on the outside of the body. Offset and length run along the edge,
+ * from the top of the body for side buttons and from the left for top buttons.
+ */
+export interface FrameButton {
+  edge: 'left' | 'right' | 'top';
+  offset: number;
+  length: number;
+}
+
+/**
+ * Status bar of a model, in points. "ears" puts the time left of the camera cutout and the
+ * icons right of it; "centered" puts the time in the middle (home button iPhones); "split"
+ * puts the time at the left edge and the icons at the right edge (iPad).
+ */
+export interface StatusBarMetrics {
+  height: number;
+  /** Vertical centre of the time and icons */
+  centerY: number;
+  fontSize: number;
+  layout: 'ears' | 'centered' | 'split';
+}
+
+/**
+ * A named device frame. Every length is in points of the device's screen and is
+ * scaled by the screenshot's width, so one model frames all of its resolutions.
+ */
+export interface FrameModel {
+  name: string;
+  label: string;
+  deviceType: DeviceType;
+  /** Portrait screenshot resolutions (px) the model is picked for automatically */
+  resolutions: Array<[number, number]>;
+  /** Screen width in points */
+  screenWidth: number;
+  screenRadius: number;
+  bezel: { side: number; top: number; bottom: number };
+  cutout: FrameCutout;
+  /** Earpiece slot in the top bezel */
+  speaker?: { width: number; height: number };
+  /** Round home button in the bottom bezel */
+  homeButton?: { diameter: number };
+  /** Draw the home indicator bar over the bottom of the screen */
+  homeIndicator: boolean;
+  buttons: FrameButton[];
+  /** How far buttons stand out from the body */
+  buttonDepth: number;
+  statusBar: StatusBarMetrics;
+}
+
+export const FRAME_MODELS: FrameModel[] = [
+  {
+    name: 'iphone-17-pro',
+    label: 'iPhone 17 Pro',
+    deviceType: 'iphone',
+    resolutions: [[1206, 2622], [1179, 2556]],
+    screenWidth: 402,
+    screenRadius: 62,
+    bezel: { side: 7, top: 7, bottom: 7 },
+    cutout: { type: 'dynamic-island', width: 125, height: 37, top: 11 },
+    homeIndicator: true,
+    buttons: [
+      { edge: 'left', offset: 180, length: 34 },
+      { edge: 'left', offset: 250, length: 60 },
+      { edge: 'left', offset: 330, length: 60 },
+      { edge: 'right', offset: 290, length: 96 },
+      { edge: 'right', offset: 590, length: 52 }
+    ],
+    buttonDepth: 2.5,
+    statusBar: { height: 62, centerY: 32, fontSize: 17, layout: 'ears' }
+  },
+  {
+    name: 'iphone-17-pro-max',
+    label: 'iPhone 17 Pro Max',
+    deviceType: 'iphone',
+    resolutions: [[1320, 2868], [1290, 2796]],
+    screenWidth: 440,
+    screenRadius: 62,
+    bezel: { side: 7, top: 7, bottom: 7 },
+    cutout: { type: 'dynamic-island', width: 125, height: 37, top: 11 },
+    homeIndicator: true,
+    buttons: [
+      { edge: 'left', offset: 195, length: 34 },
+      { edge: 'left', offset: 270, length: 64 },
+      { edge: 'left', offset: 352, length: 64 },
+      { edge: 'right', offset: 315, length: 104 },
+      { edge: 'right', offset: 645, length: 56 }
+    ],
+    buttonDepth: 2.5,
+    statusBar: { height: 62, centerY: 32, fontSize: 17, layout: 'ears' }
+  },
+  {
+    name: 'iphone-14',
+    label: 'iPhone 14 (notch)',
+    deviceType: 'iphone',
+    resolutions: [[1170, 2532], [1284, 2778], [1125, 2436], [1242, 2688], [828, 1792]],
+    screenWidth: 390,
+    screenRadius: 47,
+    bezel: { side: 9, top: 9, bottom: 9 },
+    cutout: { type: 'notch', width: 162, height: 33, radius: 20 },
+    homeIndicator: true,
+    buttons: [
+      { edge: 'left', offset: 130, length: 28 },
+      { edge: 'left', offset: 195, length: 58 },
+      { edge: 'left', offset: 270, length: 58 },
+      { edge: 'right', offset: 235, length: 92 }
+    ],
+    buttonDepth: 2.5,
+    statusBar: { height: 47, centerY: 24, fontSize: 17, layout: 'ears' }
+  },
+  {
+    name: 'iphone-se',
+    label: 'iPhone SE (home button)',
+    deviceType: 'iphone',
+    resolutions: [[750, 1334], [1242, 2208], [640, 1136]],
+    screenWidth: 375,
+    screenRadius: 0,
+    bezel: { side: 22, top: 105, bottom: 105 },
+    cutout: { type: 'camera', edge: 'top', diameter: 11, offset: -50 },
+    speaker: { width: 52, height: 6 },
+    homeButton: { diameter: 68 },
+    homeIndicator: false,
+    buttons: [
+      { edge: 'left', offset: 100, length: 24 },
+      { edge: 'left', offset: 160, length: 48 },
+      { edge: 'left', offset: 225, length: 48 },
+      { edge: 'right', offset: 160, length: 56 }
+    ],
+    buttonDepth: 2.5,
+    statusBar: { height: 20, centerY: 10, fontSize: 12, layout: 'centered' }
+  },
+  {
+    name: 'ipad-pro-13',
+    label: 'iPad Pro 13"',
+    deviceType: 'ipad',
+    resolutions: [[2064, 2752], [2048, 2732]],
+    screenWidth: 1032,
+    screenRadius: 18,
+    bezel: { side: 28, top: 28, bottom: 28 },
+    cutout: { type: 'camera', edge: 'right', diameter: 7 },
+    homeIndicator: false,
+    buttons: [
+      { edge: 'top', offset: 900, length: 58 },
+      { edge: 'right', offset: 90, length: 52 },
+      { edge: 'right', offset: 152, length: 52 }
+    ],
+    buttonDepth: 3,
+    statusBar: { height: 24, centerY: 12, fontSize: 12, layout: 'split' }
+  },
+  {
+    name: 'ipad-mini',
+    label: 'iPad mini',
+    deviceType: 'ipad',
+    resolutions: [[1488, 2266]],
+    screenWidth: 744,
+    screenRadius: 21.5,
+    bezel: { side: 38, top: 38, bottom: 38 },
+    cutout: { type: 'camera', edge: 'top', diameter: 7 },
+    homeIndicator: false,
+    buttons: [
+      { edge: 'top', offset: 600, length: 54 },
+      { edge: 'top', offset: 60, length: 46 },
+      { edge: 'top', offset: 116, length: 46 }
+    ],
+    buttonDepth: 3,
+    statusBar: { height: 24, centerY: 12, fontSize: 12, layout: 'split' }
+  }
+];
+
+export const FRAME_MODEL_NAMES = FRAME_MODELS.map(model => model.name);
+
+/**
+ * Colours of a frame. Gradients run top to bottom with their stops evenly spaced.
+ */
+export interface FrameColors {
+  /** Device body (and buttons) */
+  body: string[];
+  /** Highlight along the outer edge of the body */
+  rim: string[];
+  /** Screen bed showing around the screenshot's rounded corners */
+  screen: string[];
+  /** Glass around the screen of frame models */
+  bezel: string;
+}
+
+export const FRAME_FINISHES: Record<string, FrameColors> = {
+  black: {
+    body: ['#1b1b1b', '#0b0b0b'],
+    rim: ['rgba(255,255,255,0.35)', 'rgba(255,255,255,0.05)'],
+    screen: ['#000000', '#0c0c0c'],
+    bezel: '#050505'
+  },
+  silver: {
+    body: ['#e8e9eb', '#c4c6c9', '#a9abae'],
+    rim: ['rgba(255,255,255,0.9)', 'rgba(255,255,255,0.3)'],
+    screen: ['#000000', '#0c0c0c'],
+    bezel: '#050505'
+  },
+  'natural-titanium': {
+    body: ['#cbc6bd', '#a8a399', '#8d887f'],
+    rim: ['rgba(255,255,255,0.7)', 'rgba(255,255,255,0.15)'],
+    screen: ['#000000', '#0c0c0c'],
+    bezel: '#050505'
+  },
+  light: {
+    body: ['#fafafa', '#e6e6e8'],
+    rim: ['rgba(255,255,255,1)', 'rgba(255,255,255,0.5)'],
+    screen: ['#f5f5f7', '#e8e8ed'],
+    bezel: '#f5f5f7'
+  }
+};
+
+export const FRAME_FINISH_NAMES = Object.keys(FRAME_FINISHES);
+
+/**
+ * Resolves the frame colours: the finish preset with any custom colours on top
+ */
+export function resolveFrameColors(settings: Pick<FrameSettings, 'finish' | 'colors'>): FrameColors {
+  const finish = FRAME_FINISHES[settings.finish];
+  if (!finish) {
+    throw new Error(`Unknown frame finish "${settings.finish}" (expected one of: ${FRAME_FINISH_NAMES.join(', ')})`);
+  }
+  return { ...finish, ...settings.colors };
+}
+
+/**
+ * Renders gradient stops for a list of colours, evenly spaced from 0% to 100%
+ */
+export function gradientStops(colors: string[]): string {
+  return colors.map((color, index) => {
+    const offset = colors.length > 1 ? (index / (colors.length - 1)) * 100 : 0;
+    return `<stop offset="${offset}%" style="stop-color:${color};stop-opacity:1" />`;
+  }).join('\n          ');
+}
+
+/**
+ * Box in canvas px; radius is the corner radius
+ */
+export interface FrameBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+/**
+ * A frame model laid out around a screenshot of a given size
+ */
+export interface FrameGeometry {
+  model: FrameModel;
+  /** Canvas px per model point */
+  scale: number;
+  width: number;
+  height: number;
+  body: FrameBox;
+  screen: FrameBox;
+}
+
+/**
+ * Finds the model for a portrait screenshot: an exact resolution match first,
+ * then the device type's model with the closest aspect ratio
+ */
+export function detectFrameModel(deviceType: DeviceType, width: number, height: number): FrameModel | undefined {
+  const candidates = FRAME_MODELS.filter(model => model.deviceType === deviceType);
+
+  const exact = candidates.find(model =>
+    model.resolutions.some(([w, h]) => w === width && h === height)
+  );
+  if (exact) {
+    return exact;
+  }
+
+  const aspect = width / height;
+  let closest: { model: FrameModel; difference: number } | undefined;
+  for (const model of candidates) {
+    for (const [w, h] of model.resolutions) {
+      const difference = Math.abs(w / h - aspect) / aspect;
+      if (difference <= ASPECT_TOLERANCE && (!closest || difference < closest.difference)) {
+        closest = { model, difference };
+      }
+    }
+  }
+  return closest?.model;
+}
+
+/**
+ * Resolves the frame model setting for a screenshot. Returns undefined for the
+ * generic frame, including when "auto" finds no model for the resolution.
+ */
+export function resolveFrameModel(setting: string, deviceType: DeviceType, width: number, height: number): FrameModel | undefined {
+  if (setting === GENERIC_FRAME_MODEL) {
+    return undefined;
+  }
+  if (setting === AUTO_FRAME_MODEL) {
+    return detectFrameModel(deviceType, width, height);
+  }
+
+  const model = FRAME_MODELS.find(candidate => candidate.name === setting);
+  if (!model) {
+    throw new Error(`Unknown frame model "${setting}" (expected one of: ${[AUTO_FRAME_MODEL, GENERIC_FRAME_MODEL, ...FRAME_MODEL_NAMES].join(', ')})`);
+  }
+  return model;
+}
+
+/**
+ * Lays a model out around a screenshot, leaving padding around the body and its
+ * buttons for the drop shadow
+ */
+export function getFrameGeometry(model: FrameModel, screenshotWidth: number, screenshotHeight: number, padding: number): FrameGeometry {
+  const scale = screenshotWidth / model.screenWidth;
+  const buttonDepth = model.buttonDepth * scale;
+  // Whole px so the screenshot is composited without resampling
+  const sideInset = Math.ceil(padding + (model.buttons.some(button => button.edge === 'left' || button.edge === 'right') ? buttonDepth : 0));
+  const topInset = Math.ceil(padding + (model.buttons.some(button => button.edge === 'top') ? buttonDepth : 0));
+
+  const bezelSide = Math.round(model.bezel.side * scale);
+  const bezelTop = Math.round(model.bezel.top * scale);
+  const bezelBottom = Math.round(model.bezel.bottom * scale);
+  const screenRadius = model.screenRadius * scale;
+
+  const body: FrameBox = {
+    x: sideInset,
+    y: topInset,
+    width: screenshotWidth + bezelSide * 2,
+    height: screenshotHeight + bezelTop + bezelBottom,
+    // Concentric with the screen corners; home button models keep a rounded body around a square screen
+    radius: screenRadius > 0 ? screenRadius + bezelSide : Math.min(bezelTop, bezelSide * 3)
+  };
+  const screen: FrameBox = {
+    x: body.x + bezelSide,
+    y: body.y + bezelTop,
+    width: screenshotWidth,
+    height: screenshotHeight,
+    radius: screenRadius
+  };
+
+  return {
+    model,
+    scale,
+    width: body.width + sideInset * 2,
+    height: body.height + topInset + Math.ceil(padding),
+    body,
+    screen
+  };
+}
+
+/**
+ * Rectangle in px of a mockup image
+ */
+export interface MockupRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A PNG device mockup (such as an Apple Design Resources bezel) and where its screen is.
+ * Image paths in the manifest file are relative to the manifest.
+ */
+export interface MockupManifest {
+  /** Frame image drawn over the screenshot; the screen area must be transparent */
+  image: string;
+  /** Screen area in frame image px; the screenshot is scaled to cover it */
+  screen: MockupRect;
+  /** Corner radius of the screen in frame image px, when there's no mask */
+  cornerRadius?: number;
+  /** Mask image whose alpha (or brightness, if it has none) shapes the screen. Either the size of the screen or of the frame image. */
+  mask?: string;
+  /** Size of the framed output; the mockup is scaled to fit and centred. Defaults to the frame image size. */
+  canvas?: { width: number; height: number };
+}
+
+const mockupCache = new Map<string, MockupManifest>();
+
+/**
+ * Reads and checks a mockup manifest, resolving its image paths
+ */
+export async function loadMockupManifest(manifestPath: string): Promise<MockupManifest> {
+  const cached = mockupCache.get(manifestPath);
+  if (cached) {
+    return cached;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read mockup manifest ${manifestPath}: ${(error as Error).message}`);
+  }
+
+  const problems: string[] = [];
+  const manifest = (typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const isSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+  const isOffset = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  const checkBox = (value: unknown, at: string, fields: string[]) => {
+    const box = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    for (const field of fields) {
+      if (!(field === 'x' || field === 'y' ? isOffset(box[field]) : isSize(box[field]))) {
+        problems.push(`${at}.${field}: expected a ${field === 'x' || field === 'y' ? 'non-negative' : 'positive'} number, got ${JSON.stringify(box[field])}`);
+      }
+    }
+  };
+
+  if (typeof manifest.image !== 'string' || manifest.image.length === 0) {
+    problems.push('image: expected the path of the frame image');
+  }
+  checkBox(manifest.screen, 'screen', ['x', 'y', 'width', 'height']);
+  if (manifest.cornerRadius !== undefined && !isOffset(manifest.cornerRadius)) {
+    problems.push(`cornerRadius: expected a non-negative number, got ${JSON.stringify(manifest.cornerRadius)}`);
+  }
+  if (manifest.mask !== undefined && (typeof manifest.mask !== 'string' || manifest.mask.length === 0)) {
+    problems.push('mask: expected the path of the mask image');
+  }
+  if (manifest.canvas !== undefined) {
+    checkBox(manifest.canvas, 'canvas', ['width', 'height']);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid mockup manifest ${manifestPath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  const baseDir = path.dirname(manifestPath);
+  const resolved = manifest as unknown as MockupManifest;
+  const result: MockupManifest = {
+    ...resolved,
+    image: path.resolve(baseDir, resolved.image),
+    mask: resolved.mask && path.resolve(baseDir, resolved.mask)
+  };
+  mockupCache.set(manifestPath, result);
+  return result;
+}
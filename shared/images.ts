@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import zlib from 'zlib';
+
+/**
+ * File extensions accepted for screenshots and background images
+ */
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.heic', '.heif', '.webp'];
+
+/**
+ * Whether a file name has one of the accepted image extensions
+ */
+export function isImageFile(fileName: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Whether an image is a HEVC-compressed HEIF, as iPhones save photos and AirDropped screenshots.
+ * sharp reads their metadata, but its prebuilt binaries can't decode the pixels.
+ */
+function isHevcHeif(metadata: sharp.Metadata): boolean {
+  return metadata.format === 'heif' && metadata.compression === 'hevc';
+}
+
+/**
+ * EXIF orientations 5-8 store the image rotated by 90 degrees. HEIC files are decoded with their
+ * rotation already applied, so their EXIF orientation is ignored.
+ */
+function isTransposed(metadata: sharp.Metadata): boolean {
+  return !isHevcHeif(metadata) && (metadata.orientation ?? 1) >= 5;
+}
+
+/**
+ * Opens an image file along with its metadata
+ */
+async function openImage(filePath: string): Promise<{ image: sharp.Sharp; metadata: sharp.Metadata }> {
+  const image = sharp(filePath, { failOnError: false, limitInputPixels: false });
+  return { image, metadata: await image.metadata() };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Tags a PNG with an ICC profile by inserting an iCCP chunk after its header, without converting
+ * the pixels (sharp's withIccProfile would convert them from sRGB first)
+ */
+function embedIccProfile(png: Buffer, icc: Buffer): Buffer {
+  // Profile name, its null terminator and compression method 0 (deflate), then the compressed profile
+  const body = Buffer.concat([Buffer.from('ICC Profile\0\0', 'latin1'), zlib.deflateSync(icc)]);
+  const typeAndBody = Buffer.concat([Buffer.from('iCCP', 'latin1'), body]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody));
+
+  // The 8-byte signature and the 25-byte IHDR chunk come first
+  const headerEnd = 8 + 25;
+  return Buffer.concat([png.subarray(0, headerEnd), length, typeAndBody, crc, png.subarray(headerEnd)]);
+}
+
+/**
+ * Decodes a HEVC-compressed HEIF with libheif compiled to WebAssembly. libheif applies the
+ * file's rotation and mirroring; its colour profile is kept so it can be converted to sRGB.
+ */
+async function decodeHevcHeif(filePath: string, metadata: sharp.Metadata): Promise<sharp.Sharp> {
+  let decoded: { width: number; height: number; data: Uint8ClampedArray };
+  try {
+    decoded = await decodeHeic({ buffer: await fs.readFile(filePath) });
+  } catch (error) {
+    throw new Error(`Could not decode ${filePath}: ${(error as Error).message}`);
+  }
+
+  const { width, height, data } = decoded;
+  const png = await sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 }, limitInputPixels: false })
+    .png()
+    .toBuffer();
+  return sharp(metadata.icc ? embedIccProfile(png, metadata.icc) : png, { limitInputPixels: false });
+}
+
+/**
+ * Reads an image's size as displayed, i.e. after its EXIF orientation is applied
+ */
+export async function getImageSize(filePath: string): Promise<{ width: number; height: number }> {
+  const { metadata } = await openImage(filePath);
+  return isTransposed(metadata)
+    ? { width: metadata.height!, height: metadata.width! }
+    : { width: metadata.width!, height: metadata.height! };
+}
+
+/**
+ * Loads a screenshot or background image upright and in sRGB, whatever format it arrived in:
+ * HEIC files are decoded, the EXIF orientation is applied and an embedded colour profile (such
+ * as Display P3 from an iPhone camera roll) is converted. Plain sRGB PNGs are opened as they are.
+ */
+export async function loadImage(filePath: string): Promise<sharp.Sharp> {
+  const { image, metadata } = await openImage(filePath);
+  if (metadata.format === 'png' && (metadata.orientation ?? 1) === 1 && !metadata.icc) {
+    return image;
+  }
+
+  const decoded = isHevcHeif(metadata) ? await decodeHevcHeif(filePath, metadata) : image;
+  const normalized = await decoded
+    .rotate()
+    .toColourspace('srgb')
+    .png()
+    .toBuffer();
+  return sharp(normalized, { limitInputPixels: false });
+}
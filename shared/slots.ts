@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * App Store Connect accepts up to 10 screenshots per device and locale
+ */
+export const MAX_SLOTS = 10;
+
+const SLOT_PATTERN = /^slot_(\d+)$/;
+
+interface SlotPaths {
+  screenshotsPath?: string;
+  translationsPath?: string;
+}
+
+/**
+ * Parses a slot folder or translation key name (e.g. "slot_3") into its slot number
+ */
+export function parseSlotNumber(name: string): number | undefined {
+  const match = SLOT_PATTERN.exec(name);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Finds the slot numbers of all slot_N folders for the specified device type and locale
+ */
+export async function findSlotFolders(screenshotsPath: string, deviceType: string, locale: string): Promise<number[]> {
+  const localePath = path.join(screenshotsPath, deviceType, locale);
+
+  try {
+    const entries = await fs.readdir(localePath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => parseSlotNumber(entry.name))
+      .filter((slot): slot is number => slot !== undefined)
+      .sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the slot numbers of all slot_N keys in a locale's translations file
+ */
+export async function findTranslationSlots(translationsPath: string, locale: string): Promise<number[]> {
+  const translationsFile = path.join(translationsPath, `${locale}.json`);
+
+  try {
+    const translations = JSON.parse(await fs.readFile(translationsFile, 'utf-8'));
+    return Object.keys(translations)
+      .map(key => parseSlotNumber(key))
+      .filter((slot): slot is number => slot !== undefined)
+      .sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the slots in 1..slotCount that are absent from the given slot numbers
+ */
+export function findMissingSlots(slots: number[], slotCount: number): number[] {
+  const missing: number[] = [];
+  for (let slot = 1; slot <= slotCount; slot++) {
+    if (!slots.includes(slot)) {
+      missing.push(slot);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Formats slot numbers as a readable list, e.g. "slot_2, slot_5"
+ */
+export function formatSlots(slots: number[]): string {
+  return slots.map(slot => `slot_${slot}`).join(', ');
+}
+
+/**
+ * Resolves how many screenshots a device type and locale has, based on the slot
+ * folders in 00_input/screenshots/. The translations file is shared by every device
+ * type, so it needs a slot_N key for each of these slots; keys beyond them belong to
+ * another device type and are ignored.
+ * Throws if the slot folders are not numbered contiguously from slot_1, if a
+ * translation key is missing, or if the count exceeds MAX_SLOTS.
+ */
+export async function resolveSlotCount(deviceType: string, locale: string, paths: SlotPaths = {}): Promise<number> {
+  const {
+    screenshotsPath = path.resolve(__dirname, '../00_input/screenshots'),
+    translationsPath = path.resolve(__dirname, '../00_input/translations')
+  } = paths;
+
+  const folderSlots = await findSlotFolders(screenshotsPath, deviceType, locale);
+  const translationSlots = await findTranslationSlots(translationsPath, locale);
+  const slotCount = Math.max(0, ...folderSlots);
+
+  if (slotCount === 0) {
+    throw new Error(`No slots found for ${deviceType}/${locale}: expected slot_N folders in ${path.join(screenshotsPath, deviceType, locale)}`);
+  }
+
+  if (slotCount > MAX_SLOTS) {
+    throw new Error(`Too many slots for ${deviceType}/${locale}: found slot_${slotCount}, but App Store Connect accepts at most ${MAX_SLOTS} screenshots`);
+  }
+
+  const problems: string[] = [];
+  const missingFolders = findMissingSlots(folderSlots, slotCount);
+  if (missingFolders.length > 0) {
+    problems.push(`missing slot folder(s) ${formatSlots(missingFolders)} in ${path.join(screenshotsPath, deviceType, locale)}`);
+  }
+  const missingKeys = translationSlots.length > 0 ? findMissingSlots(translationSlots, slotCount) : [];
+  if (missingKeys.length > 0) {
+    problems.push(`missing translation key(s) ${formatSlots(missingKeys)} in ${path.join(translationsPath, `${locale}.json`)}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Expected ${slotCount} slot(s) for ${deviceType}/${locale}, but found ${problems.join('; ')}`);
+  }
+
+  return slotCount;
+}
@@ -0,0 +1,217 @@
+import opentype from 'opentype.js';
+import { loadFont } from './fonts';
+
+/**
+ * Width estimates (in em) for characters that none of the fonts can measure
+ */
+const WIDE_CHAR_ESTIMATE = 1.0;
+const NARROW_CHAR_ESTIMATE = 0.6;
+
+/**
+ * East Asian wide characters: CJK punctuation, kana, Han, Hangul and fullwidth forms
+ */
+const WIDE_CHAR_PATTERN = /[\u1100-\u11FF\u2E80-\u303F\u3040-\u30FF\u3100-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+/**
+ * Characters that may be wrapped between without a space (Han, kana and CJK punctuation)
+ */
+const BREAK_ANYWHERE_PATTERN = /[\u2E80-\u303F\u3040-\u30FF\u3100-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+const ELLIPSIS = '\u2026';
+
+export interface TextMeasurer {
+  /** Width in px of text rendered at fontSize */
+  measure(text: string, fontSize: number): number;
+}
+
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+  /** The font size had to be reduced for the text to fit */
+  shrunk: boolean;
+  /** The text still didn't fit at the minimum font size and was cut off with an ellipsis */
+  truncated: boolean;
+}
+
+export interface FitOptions {
+  maxWidth: number;
+  maxLines: number;
+  fontSize: number;
+  minFontSize: number;
+}
+
+/**
+ * Creates a measurer that sums glyph advances and kerning from the given fonts.
+ * Each character is measured with the first font that has a glyph for it; characters
+ * no font covers fall back to an estimate based on whether they are wide (CJK) or not.
+ */
+export function createTextMeasurer(fontPaths: string[]): TextMeasurer {
+  const fonts = fontPaths.map(loadFont);
+
+  return {
+    measure(text: string, fontSize: number): number {
+      let width = 0;
+      let previous: { font: opentype.Font; glyph: opentype.Glyph } | undefined;
+
+      for (const char of Array.from(text)) {
+        const font = fonts.find(candidate => candidate.charToGlyphIndex(char) > 0);
+        if (!font) {
+          width += fontSize * (WIDE_CHAR_PATTERN.test(char) ? WIDE_CHAR_ESTIMATE : NARROW_CHAR_ESTIMATE);
+          previous = undefined;
+          continue;
+        }
+
+        const scale = fontSize / font.unitsPerEm;
+        const glyph = font.charToGlyph(char);
+        if (previous && previous.font === font) {
+          width += font.getKerningValue(previous.glyph, glyph) * scale;
+        }
+        width += (glyph.advanceWidth ?? 0) * scale;
+        previous = { font, glyph };
+      }
+
+      return width;
+    }
+  };
+}
+
+/**
+ * Lists the characters of the text, once each, that none of the fonts has a glyph for
+ */
+export function findUncoveredCharacters(text: string, fontPaths: string[]): string[] {
+  const fonts = fontPaths.map(loadFont);
+  return Array.from(new Set(Array.from(text)))
+    .filter(char => !/\s/.test(char) && !fonts.some(font => font.charToGlyphIndex(char) > 0));
+}
+
+/**
+ * Splits a paragraph into wrap units. Words are separated by spaces; Han and kana
+ * characters are units of their own since CJK text may break between any two of them.
+ * Each unit records whether it was preceded by a space.
+ */
+function splitIntoUnits(paragraph: string): Array<{ text: string; spaceBefore: boolean }> {
+  const units: Array<{ text: string; spaceBefore: boolean }> = [];
+  let current = '';
+  let spaceBefore = false;
+
+  const flush = () => {
+    if (current) {
+      units.push({ text: current, spaceBefore });
+      current = '';
+      spaceBefore = false;
+    }
+  };
+
+  for (const char of Array.from(paragraph)) {
+    if (/\s/.test(char)) {
+      flush();
+      spaceBefore = units.length > 0;
+    } else if (BREAK_ANYWHERE_PATTERN.test(char)) {
+      flush();
+      units.push({ text: char, spaceBefore });
+      spaceBefore = false;
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return units;
+}
+
+/**
+ * Breaks a single unit that is wider than maxWidth into character runs that fit
+ */
+function breakUnit(text: string, maxWidth: number, measure: (value: string) => number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(text)) {
+    if (current && measure(current + char) > maxWidth) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Greedily wraps text into lines no wider than maxWidth. Manual line breaks
+ * ("\n" in translations) always start a new line. A word wider than maxWidth is
+ * broken between characters when breakWords is set, and left overflowing otherwise.
+ */
+export function wrapText(text: string, maxWidth: number, measure: (value: string) => number, breakWords: boolean = true): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n|\\n/)) {
+    let line = '';
+    for (const unit of splitIntoUnits(paragraph.trim())) {
+      const candidate = line ? line + (unit.spaceBefore ? ' ' : '') + unit.text : unit.text;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+      if (!breakWords || measure(unit.text) <= maxWidth) {
+        line = unit.text;
+      } else {
+        const parts = breakUnit(unit.text, maxWidth, measure);
+        lines.push(...parts.slice(0, -1));
+        line = parts[parts.length - 1];
+      }
+    }
+    if (line) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Cuts text down so that it plus an ellipsis fits within maxWidth
+ */
+function truncateLine(text: string, maxWidth: number, measure: (value: string) => number): string {
+  const chars = Array.from(text);
+  while (chars.length > 0 && measure(chars.join('').trimEnd() + ELLIPSIS) > maxWidth) {
+    chars.pop();
+  }
+  return chars.join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Wraps text into at most maxLines lines, shrinking the font size one pixel at a
+ * time down to minFontSize when it doesn't fit. Words are only broken between
+ * characters if they don't fit even at the minimum size, and if the text still
+ * doesn't fit after that, the last line is truncated with an ellipsis.
+ */
+export function fitText(text: string, measurer: TextMeasurer, options: FitOptions): FittedText {
+  const { maxWidth, maxLines, fontSize, minFontSize } = options;
+  const floor = Math.min(fontSize, minFontSize);
+
+  for (let size = fontSize; size >= floor; size--) {
+    const measure = (value: string) => measurer.measure(value, size);
+    const lines = wrapText(text, maxWidth, measure, false);
+    if (lines.length <= maxLines && lines.every(line => measure(line) <= maxWidth)) {
+      return { lines, fontSize: size, shrunk: size < fontSize, truncated: false };
+    }
+  }
+
+  const measure = (value: string) => measurer.measure(value, floor);
+  const brokenLines = wrapText(text, maxWidth, measure);
+  if (brokenLines.length <= maxLines) {
+    return { lines: brokenLines, fontSize: floor, shrunk: floor < fontSize, truncated: false };
+  }
+
+  const lines = brokenLines.slice(0, maxLines);
+  const lastLine = lines.length - 1;
+  lines[lastLine] = truncateLine(lines[lastLine], maxWidth, measure);
+  return { lines, fontSize: floor, shrunk: floor < fontSize, truncated: true };
+}
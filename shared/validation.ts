@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DeviceType, ProjectConfig, getOrientation, resolveSettings } from './config';
+import { describeResolution, findKnownResolution, KNOWN_RESOLUTIONS } from './devices';
+import { getImageSize, isImageFile } from './images';
+import { parseSlotNumber } from './slots';
+
+/**
+ * How far (relative difference) an unknown resolution's aspect ratio may be from a
+ * known one of its device type before it counts as cropped or scaled
+ */
+const ASPECT_TOLERANCE = 0.015;
+
+/**
+ * A problem with an input screenshot. Errors stop the run; warnings are only reported.
+ */
+export interface ScreenshotIssue {
+  severity: 'error' | 'warning';
+  deviceType: DeviceType;
+  locale: string;
+  slot?: number;
+  file?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  /** Number of screenshots checked */
+  checked: number;
+  issues: ScreenshotIssue[];
+}
+
+interface ScreenshotInfo {
+  locale: string;
+  slot: number;
+  file: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lists the directories in a directory, or nothing when it doesn't exist
+ */
+async function listDirectories(dirPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the most common "WxH" size among the screenshots
+ */
+function mostCommonSize(screenshots: ScreenshotInfo[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const screenshot of screenshots) {
+    const size = `${screenshot.width}x${screenshot.height}`;
+    counts.set(size, (counts.get(size) ?? 0) + 1);
+  }
+  let common: string | undefined;
+  for (const [size, count] of counts) {
+    if (!common || count > counts.get(common)!) {
+      common = size;
+    }
+  }
+  return common;
+}
+
+/**
+ * Checks one screenshot's resolution against the known resolutions for its device type
+ */
+function checkResolution(screenshot: ScreenshotInfo, deviceType: DeviceType, config: ProjectConfig): Omit<ScreenshotIssue, 'deviceType' | 'locale' | 'slot' | 'file'>[] {
+  const { width, height } = screenshot;
+  const issues: Omit<ScreenshotIssue, 'deviceType' | 'locale' | 'slot' | 'file'>[] = [];
+
+  const known = findKnownResolution(width, height);
+  if (known && known.deviceType !== deviceType) {
+    issues.push({ severity: 'error', message: `${describeResolution(width, height)} is an ${known.deviceType} resolution, but the screenshot is under ${deviceType}/` });
+  } else if (!known) {
+    const aspect = Math.min(width, height) / Math.max(width, height);
+    const matchesAspect = KNOWN_RESOLUTIONS
+      .filter(resolution => resolution.deviceType === deviceType)
+      .some(resolution => Math.abs(resolution.width / resolution.height - aspect) / aspect <= ASPECT_TOLERANCE);
+    issues.push(matchesAspect
+      ? { severity: 'warning', message: `${width}x${height} isn't a known ${deviceType} screenshot resolution` }
+      : { severity: 'error', message: `${width}x${height} doesn't have the aspect ratio of any ${deviceType} screen; was it cropped or resized?` });
+  }
+
+  const orientation = resolveSettings(config, deviceType, screenshot.locale).frame.orientation;
+  if (orientation !== 'auto' && getOrientation(width, height) !== orientation) {
+    issues.push({ severity: 'error', message: `${width}x${height} is ${getOrientation(width, height)}, but the frame orientation is set to ${orientation}` });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the input screenshots of the given device types and locales before anything is
+ * rendered: one image per slot, resolutions known for the device type (and not another's),
+ * plausible aspect ratios, the configured orientation, and the same size across each set.
+ */
+export async function validateScreenshots(config: ProjectConfig, deviceTypes: DeviceType[], locales?: string[]): Promise<ValidationReport> {
+  const issues: ScreenshotIssue[] = [];
+  let checked = 0;
+
+  for (const deviceType of deviceTypes) {
+    const devicePath = path.join(config.paths.screenshots, deviceType);
+    const deviceLocales = (await listDirectories(devicePath)).filter(locale => !locales || locales.includes(locale));
+    const deviceScreenshots: ScreenshotInfo[] = [];
+
+    for (const locale of deviceLocales) {
+      const localeScreenshots: ScreenshotInfo[] = [];
+
+      for (const slotDir of await listDirectories(path.join(devicePath, locale))) {
+        const slot = parseSlotNumber(slotDir);
+        if (slot === undefined) {
+          continue;
+        }
+        const slotPath = path.join(devicePath, locale, slotDir);
+        const files = (await fs.readdir(slotPath)).filter(isImageFile).sort();
+
+        if (files.length > 1) {
+          issues.push({
+            severity: 'error',
+            deviceType,
+            locale,
+            slot,
+            message: `${files.length} screenshots in one slot (${files.join(', ')}); each slot takes exactly one, the others would overwrite its framed.png`
+          });
+        }
+
+        for (const file of files) {
+          checked++;
+          const filePath = path.join(slotPath, file);
+          let size: { width: number; height: number };
+          try {
+            size = await getImageSize(filePath);
+          } catch (error) {
+            issues.push({ severity: 'error', deviceType, locale, slot, file, message: `can't be read as an image: ${(error as Error).message}` });
+            continue;
+          }
+
+          const screenshot: ScreenshotInfo = { locale, slot, file, ...size };
+          localeScreenshots.push(screenshot);
+          checkResolution(screenshot, deviceType, config).forEach(issue => issues.push({ ...issue, deviceType, locale, slot, file }));
+        }
+      }
+
+      // Every screenshot in a set is shown side by side, so they must share one size
+      const setSize = mostCommonSize(localeScreenshots);
+      for (const screenshot of localeScreenshots) {
+        const size = `${screenshot.width}x${screenshot.height}`;
+        if (size !== setSize) {
+          issues.push({
+            severity: 'error',
+            deviceType,
+            locale,
+            slot: screenshot.slot,
+            file: screenshot.file,
+            message: `${describeResolution(screenshot.width, screenshot.height)} differs from the rest of ${deviceType}/${locale}, which is ${setSize}`
+          });
+        }
+      }
+      deviceScreenshots.push(...localeScreenshots);
+    }
+
+    // Locales may differ from each other, but usually that means a capture from the wrong device
+    const deviceSize = mostCommonSize(deviceScreenshots);
+    for (const locale of deviceLocales) {
+      const localeSize = mostCommonSize(deviceScreenshots.filter(screenshot => screenshot.locale === locale));
+      if (localeSize && localeSize !== deviceSize) {
+        issues.push({
+          severity: 'warning',
+          deviceType,
+          locale,
+          message: `screenshots are ${localeSize}, but most ${deviceType} screenshots are ${deviceSize}`
+        });
+      }
+    }
+  }
+
+  return { checked, issues };
+}
+
+/**
+ * Prints every problem in a validation report, errors first
+ */
+export function printValidationReport(report: ValidationReport): void {
+  const errors = report.issues.filter(issue => issue.severity === 'error');
+  const warnings = report.issues.filter(issue => issue.severity === 'warning');
+  if (report.issues.length === 0) {
+    console.log(`✅ Checked ${report.checked} screenshot(s): no problems found`);
+    return;
+  }
+
+  console.log(`Checked ${report.checked} screenshot(s): ${errors.length} error(s), ${warnings.length} warning(s)`);
+  for (const issue of [...errors, ...warnings]) {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    const slot = issue.slot !== undefined ? ` slot_${issue.slot}` : '';
+    const file = issue.file ? ` (${issue.file})` : '';
+    console.log(`  ${icon} ${issue.deviceType}/${issue.locale}${slot}${file}: ${issue.message}`);
+  }
+}
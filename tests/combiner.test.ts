@@ -0,0 +1,186 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { TitleFont, calculateCanvasDimensions, generateOutputPath, generateTitleSvg } from '../02_input_combined/combiner';
+import { TitleStyle, defaultCombineSettings } from '../shared/config';
+import { SLOT_COLORS, createTempDir, writeSolidImage } from './helpers';
+
+describe('calculateCanvasDimensions', () => {
+  const images = [1, 2, 3].map(() => ({ width: 100, height: 200 }));
+  const calculate = (overrides: Partial<{
+    bgWidth: number; bgHeight: number; subtitleFontSize: number; captionAreas: { above: boolean; below: boolean };
+    singleLineTitles: boolean; slotAspect: number;
+  }> = {}) => {
+    const {
+      bgWidth = 0, bgHeight = 0, subtitleFontSize = 0, captionAreas = { above: true, below: false },
+      singleLineTitles = false, slotAspect
+    } = overrides;
+    return calculateCanvasDimensions(images, 10, bgWidth, bgHeight, 50, 20, subtitleFontSize, 10, captionAreas, true, singleLineTitles, slotAspect);
+  };
+
+  it('fits the devices side by side with spacing and a two-line title area above', () => {
+    // Title area: two 60px lines, 11px padding above and below, then 20px title spacing
+    assert.deepEqual(calculate(), { canvasWidth: 340, canvasHeight: 382, imageWidth: 100, imageHeight: 200, quarterWidth: 113 });
+  });
+
+  it('reserves one title line for single-line titles', () => {
+    assert.equal(calculate({ singleLineTitles: true }).canvasHeight, 322);
+  });
+
+  it('adds the subtitle lines and spacing to the title area', () => {
+    assert.equal(calculate({ subtitleFontSize: 30 }).canvasHeight, 464);
+  });
+
+  it('reserves a title area per caption position in use', () => {
+    assert.equal(calculate({ captionAreas: { above: true, below: true } }).canvasHeight, 544);
+    assert.equal(calculate({ captionAreas: { above: false, below: false } }).canvasHeight, 220);
+  });
+
+  it('never makes the canvas smaller than the background', () => {
+    const dimensions = calculate({ bgWidth: 1000, bgHeight: 500 });
+    assert.equal(dimensions.canvasWidth, 1000);
+    assert.equal(dimensions.canvasHeight, 500);
+    assert.equal(dimensions.quarterWidth, 333);
+  });
+
+  it('gives every slot the requested aspect ratio', () => {
+    const { canvasWidth, canvasHeight } = calculate({ slotAspect: 0.5 });
+    assert.equal(canvasWidth, 573);
+    assert.equal(canvasHeight, 382);
+    assert.ok(Math.abs(canvasWidth / 3 / canvasHeight - 0.5) < 0.01);
+  });
+
+  it('uses the original size of scaled images', () => {
+    const scaled = [{ width: 50, height: 100, originalWidth: 100, originalHeight: 200 }];
+    const { imageWidth, imageHeight } = calculateCanvasDimensions(scaled, 10, 0, 0, 50, 20, 0, 10, { above: true, below: false }, true, false);
+    assert.deepEqual([imageWidth, imageHeight], [100, 200]);
+  });
+});
+
+describe('generateTitleSvg', () => {
+  // Every character is half the font size wide, so widths are easy to work out by hand
+  const font: TitleFont = { measurer: { measure: (text, fontSize) => Array.from(text).length * fontSize * 0.5 }, family: 'Test Sans', weight: 600 };
+  const style: TitleStyle = {
+    ...defaultCombineSettings,
+    titleFontSize: 100,
+    titleShadowOffset: 2,
+    subtitleFontSize: 50,
+    subtitleSpacing: 10,
+    bannerPadding: 30
+  };
+  const minFontSizes = { title: 40, subtitle: 20 };
+  const render = (title: string, width: number, maxLines: number, options: { subtitle?: string; banner?: boolean } = {}) =>
+    generateTitleSvg({ title, subtitle: options.subtitle }, style, width, maxLines, font, minFontSizes, 'ltr', options.banner);
+
+  it('keeps a title that fits on one line at its font size', () => {
+    const { fit, svgHeight } = render('Hello', 1000, 2);
+    assert.deepEqual(fit.lines, ['Hello']);
+    assert.equal(fit.fontSize, 100);
+    assert.equal(fit.shrunk, false);
+    // One 120px line plus 22px padding (font size / 5 + shadow offset) above and below
+    assert.equal(svgHeight, 164);
+  });
+
+  it('wraps at spaces before shrinking', () => {
+    const { fit, svgHeight } = render('Plan your week', 500, 2);
+    assert.deepEqual(fit.lines, ['Plan your', 'week']);
+    assert.equal(fit.fontSize, 100);
+    assert.equal(svgHeight, 284);
+  });
+
+  it('shrinks a title to the largest size that fits in the lines allowed', () => {
+    const { fit } = render('Plan your weekly meals', 500, 1);
+    assert.deepEqual(fit.lines, ['Plan your weekly meals']);
+    assert.equal(fit.fontSize, 45);
+    assert.equal(fit.shrunk, true);
+    assert.equal(fit.truncated, false);
+  });
+
+  it('truncates a title that does not fit at the minimum font size', () => {
+    const { fit } = render('Everything you need to plan, shop and cook every meal of the week', 500, 2);
+    assert.equal(fit.fontSize, 40);
+    assert.equal(fit.truncated, true);
+    assert.equal(fit.lines.length, 2);
+    assert.ok(fit.lines[1].endsWith('…'));
+    fit.lines.forEach(line => assert.ok(font.measurer.measure(line, fit.fontSize) <= 500, `"${line}" is wider than the title`));
+  });
+
+  it('adds the subtitle lines below the title', () => {
+    const { subtitleFit, svgHeight, buffer } = render('Hello', 1000, 2, { subtitle: 'Small print' });
+    assert.deepEqual(subtitleFit?.lines, ['Small print']);
+    // 120px title line, 10px spacing and a 60px subtitle line, plus 22px padding above and below
+    assert.equal(svgHeight, 234);
+    assert.match(buffer.toString(), /class="subtitle">Small print</);
+  });
+
+  it('insets the text by the banner padding', () => {
+    const { fit, svgHeight, buffer } = render('Plan your', 500, 2, { banner: true });
+    assert.deepEqual(fit.lines, ['Plan', 'your']);
+    assert.equal(svgHeight, 344);
+    assert.match(buffer.toString(), /<rect width="500" height="344"/);
+  });
+
+  it('escapes the caption text', () => {
+    const svg = render('Save & share <fast>', 2000, 1).buffer.toString();
+    assert.match(svg, /Save &amp; share &lt;fast&gt;/);
+  });
+
+  it('sets the text direction', () => {
+    const svg = generateTitleSvg({ title: 'مرحبا' }, style, 1000, 2, font, minFontSizes, 'rtl').buffer.toString();
+    assert.match(svg, /direction: rtl;/);
+  });
+});
+
+describe('generateOutputPath', () => {
+  it('writes combined.png per device type and locale', () => {
+    const combinedPath = path.resolve('/project/combined');
+    assert.equal(generateOutputPath(combinedPath, 'ipad', 'ja'), path.join(combinedPath, 'ipad', 'ja', 'combined.png'));
+  });
+});
+
+describe('combiner.ts --locale', () => {
+  const temp = createTempDir();
+  const configPath = path.join(temp.dir, 'screenshots.config.json');
+  const tsx = path.resolve(__dirname, '../node_modules/.bin/tsx');
+  const combiner = path.resolve(__dirname, '../02_input_combined/combiner.ts');
+
+  // Combines one locale through the command line and returns the combined image's height
+  const combineHeight = async (locale: string, ...args: string[]) => {
+    await promisify(execFile)(tsx, [combiner, '--locale', locale, '--config', configPath, ...args]);
+    const { height } = await sharp(path.join(temp.dir, 'combined', 'iphone', locale, 'combined.png')).metadata();
+    return height!;
+  };
+
+  before(async () => {
+    await fs.mkdir(path.join(temp.dir, 'translations'), { recursive: true });
+    for (const locale of ['en', 'de']) {
+      for (let slot = 1; slot <= 2; slot++) {
+        await fs.mkdir(path.join(temp.dir, 'screenshots', 'iphone', locale, `slot_${slot}`), { recursive: true });
+        const framedDir = path.join(temp.dir, 'framed', 'iphone', locale, `slot_${slot}`);
+        await fs.mkdir(framedDir, { recursive: true });
+        await writeSolidImage(path.join(framedDir, 'framed.png'), 300, 600, SLOT_COLORS[slot - 1]);
+      }
+    }
+    await fs.writeFile(path.join(temp.dir, 'translations', 'en.json'), JSON.stringify({ slot_1: 'One', slot_2: 'Two' }));
+    await fs.writeFile(path.join(temp.dir, 'translations', 'de.json'), JSON.stringify({ slot_1: 'Eins', slot_2: 'Zwei', style: { titleFontSize: 300 } }));
+    await writeSolidImage(path.join(temp.dir, 'bg.png'), 400, 300, [128, 128, 128]);
+    await fs.writeFile(configPath, JSON.stringify({
+      paths: { screenshots: 'screenshots', translations: 'translations', background: 'bg.png', framed: 'framed', combined: 'combined' },
+      combine: { titleFontSize: 100 }
+    }));
+  });
+
+  after(temp.cleanup);
+
+  it('applies the translations file style over the config', async () => {
+    assert.ok(await combineHeight('de') > await combineHeight('en'), 'the larger de titles did not get a taller title area');
+  });
+
+  it('lets command-line options override the translations file style', async () => {
+    assert.equal(await combineHeight('de', '--title-font-size', '100'), await combineHeight('en'));
+  });
+});
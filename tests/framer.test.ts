@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { generateOutputPath, getScreenshotOffset, resolveFrameSettings } from '../01_input_framed/framer';
+import { buildConfig, defaultFrameSettings, resolveSettings } from '../shared/config';
+
+describe('getScreenshotOffset', () => {
+  it('uses the edge margin on every side when one is set', () => {
+    const settings = { ...defaultFrameSettings, edgeMargin: 24 };
+    assert.equal(getScreenshotOffset('iphone', 1320, 2868, true, settings), 24);
+    assert.equal(getScreenshotOffset('iphone', 1320, 2868, false, settings), 24);
+  });
+
+  it('falls back to the top and left offsets without an edge margin', () => {
+    const settings = { ...defaultFrameSettings, edgeMargin: undefined, screenshotOffset: { top: 40, left: 16 } };
+    assert.equal(getScreenshotOffset('ipad', 2064, 2752, true, settings), 40);
+    assert.equal(getScreenshotOffset('ipad', 2064, 2752, false, settings), 16);
+  });
+});
+
+describe('generateOutputPath', () => {
+  const paths = { screenshots: path.resolve('/project/input/shots'), framed: path.resolve('/project/framed') };
+
+  it('mirrors the screenshots directory layout under the framed directory', () => {
+    const inputPath = path.join(paths.screenshots, 'iphone', 'en', 'slot_2', 'home.png');
+    assert.equal(generateOutputPath(inputPath, paths), path.join(paths.framed, 'iphone', 'en', 'slot_2', 'framed.png'));
+  });
+
+  it('always writes framed.png, whatever the input format', () => {
+    const inputPath = path.join(paths.screenshots, 'ipad', 'de', 'slot_1', 'IMG_0042.HEIC');
+    assert.equal(generateOutputPath(inputPath, paths), path.join(paths.framed, 'ipad', 'de', 'slot_1', 'framed.png'));
+  });
+
+  it('maps a path outside the configured directory through its "screenshots" folder', () => {
+    const inputPath = path.resolve('/elsewhere/screenshots/iphone/fr/slot_3/shot.png');
+    assert.equal(generateOutputPath(inputPath, paths), path.join(paths.framed, 'iphone', 'fr', 'slot_3', 'framed.png'));
+  });
+
+  it('falls back to the input folder name for any other path', () => {
+    const inputPath = path.resolve('/tmp/captures/slot_4/shot.png');
+    assert.equal(generateOutputPath(inputPath, paths), path.join(paths.framed, 'slot_4', 'framed.png'));
+  });
+});
+
+describe('resolveFrameSettings', () => {
+  const config = buildConfig({
+    frame: { statusBar: { time: '10:08' } },
+    locales: { de: { frame: { statusBar: { enabled: false, time: '9:41' } } } }
+  }, '/project');
+
+  it('turns the status bar on over a locale that turns it off', () => {
+    const settings = resolveFrameSettings(resolveSettings(config, 'iphone', 'de').frame, { statusBar: { enabled: true } });
+    assert.equal(settings.statusBar.enabled, true);
+    assert.equal(settings.statusBar.time, '9:41');
+  });
+
+  it('keeps the resolved settings without run settings', () => {
+    const settings = resolveFrameSettings(resolveSettings(config, 'iphone', 'de').frame, {});
+    assert.equal(settings.statusBar.enabled, false);
+    assert.equal(resolveFrameSettings(resolveSettings(config, 'iphone', 'en').frame, {}).statusBar.time, '10:08');
+  });
+});
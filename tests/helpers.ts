@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type Rgb = [number, number, number];
+
+/**
+ * Distinct colours for synthetic screenshots and slots, far enough apart to tell which one a pixel came from
+ */
+export const SLOT_COLORS: Rgb[] = [[220, 40, 40], [40, 180, 60], [40, 80, 220], [230, 200, 30]];
+
+/**
+ * Creates a temporary directory, removed by the returned cleanup function
+ */
+export function createTempDir(): { dir: string; cleanup: () => void } {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'screenshots-test-'));
+  return { dir, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Writes a PNG filled with one colour
+ */
+export async function writeSolidImage(filePath: string, width: number, height: number, color: Rgb): Promise<void> {
+  const [r, g, b] = color;
+  await sharp({ create: { width, height, channels: 3, background: { r, g, b } } }).png().toFile(filePath);
+}
+
+/**
+ * Creates an image of vertical stripes of equal width, one per colour, left to right
+ */
+export async function createStripes(colors: Rgb[], stripeWidth: number, height: number): Promise<sharp.Sharp> {
+  const stripes = await Promise.all(colors.map(async ([r, g, b], index) => ({
+    input: await sharp({ create: { width: stripeWidth, height, channels: 3, background: { r, g, b } } }).png().toBuffer(),
+    left: index * stripeWidth,
+    top: 0
+  })));
+  const buffer = await sharp({ create: { width: stripeWidth * colors.length, height, channels: 3, background: '#000000' } })
+    .composite(stripes)
+    .png()
+    .toBuffer();
+  return sharp(buffer);
+}
+
+/**
+ * Reads one pixel's RGB values
+ */
+export async function readPixel(input: string | Buffer, x: number, y: number): Promise<Rgb> {
+  const { data } = await sharp(input)
+    .removeAlpha()
+    .extract({ left: Math.round(x), top: Math.round(y), width: 1, height: 1 })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return [data[0], data[1], data[2]];
+}
+
+/**
+ * Whether two colours are equal within a per-channel tolerance, allowing for resampling
+ */
+export function isColor(actual: Rgb, expected: Rgb, tolerance = 12): boolean {
+  return actual.every((channel, index) => Math.abs(channel - expected[index]) <= tolerance);
+}
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { getImageSize, isImageFile, loadImage } from '../shared/images';
+import { SLOT_COLORS, isColor, readPixel } from './helpers';
+
+// A 660x1434 HEVC-compressed HEIC: the first slot colour on the top half, the third on the bottom half
+const HEIC_FIXTURE = path.join(__dirname, 'fixtures', 'screenshot.heic');
+
+describe('HEIC screenshots', () => {
+  it('are accepted as screenshots', () => {
+    assert.ok(isImageFile('IMG_0042.HEIC'));
+    assert.ok(isImageFile('IMG_0042.heif'));
+  });
+
+  it('report their size', async () => {
+    assert.deepEqual(await getImageSize(HEIC_FIXTURE), { width: 660, height: 1434 });
+  });
+
+  it('decode upright', async () => {
+    const image = await (await loadImage(HEIC_FIXTURE)).png().toBuffer();
+    assert.ok(isColor(await readPixel(image, 330, 100), SLOT_COLORS[0]));
+    assert.ok(isColor(await readPixel(image, 330, 1300), SLOT_COLORS[2]));
+  });
+});
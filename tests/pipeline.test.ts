@@ -0,0 +1,191 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerateResult, generate } from '../generate';
+import { ProjectConfig, buildConfig } from '../shared/config';
+import { SLOT_COLORS, createTempDir, isColor, readPixel, writeSolidImage } from './helpers';
+
+// Half the iPhone 6.9" resolution: an unknown size, but a plausible iPhone aspect ratio
+const SCREENSHOT_WIDTH = 660;
+const SCREENSHOT_HEIGHT = 1434;
+const SLOT_COUNT = 3;
+const LOCALES = ['en', 'ar'];
+const OUTPUT_DISPLAYS = ['iphone-6.9', 'iphone-6.5'];
+
+describe('frame -> combine -> split', () => {
+  const temp = createTempDir();
+  let config: ProjectConfig;
+  let result: GenerateResult;
+
+  before(async () => {
+    // One solid-colour screenshot and one title per slot, for a left-to-right and a right-to-left locale
+    await fs.mkdir(path.join(temp.dir, 'translations'), { recursive: true });
+    for (const locale of LOCALES) {
+      const titles: Record<string, string> = {};
+      for (let slot = 1; slot <= SLOT_COUNT; slot++) {
+        const slotDir = path.join(temp.dir, 'screenshots', 'iphone', locale, `slot_${slot}`);
+        await fs.mkdir(slotDir, { recursive: true });
+        await writeSolidImage(path.join(slotDir, 'screen.png'), SCREENSHOT_WIDTH, SCREENSHOT_HEIGHT, SLOT_COLORS[slot - 1]);
+        titles[`slot_${slot}`] = `Title ${slot}`;
+      }
+      await fs.writeFile(path.join(temp.dir, 'translations', `${locale}.json`), JSON.stringify(titles));
+    }
+    await writeSolidImage(path.join(temp.dir, 'bg.png'), 400, 300, [128, 128, 128]);
+
+    config = buildConfig({
+      paths: {
+        screenshots: 'screenshots',
+        translations: 'translations',
+        background: 'bg.png',
+        framed: 'framed',
+        combined: 'combined',
+        output: 'output',
+        cache: '.cache/build-manifest.json'
+      },
+      outputDevices: OUTPUT_DISPLAYS.map(display => ({ display, orientation: 'portrait' as const }))
+    }, temp.dir);
+
+    result = await generate({ config, locales: LOCALES, deviceTypes: ['iphone'] });
+  });
+
+  after(temp.cleanup);
+
+  it('resolves the portrait output sizes from the display size catalogue', () => {
+    assert.deepEqual(config.outputDevices.map(device => [device.display, device.width, device.height]), [
+      ['iphone-6.9', 1320, 2868],
+      ['iphone-6.5', 1242, 2688]
+    ]);
+  });
+
+  it('builds every target', () => {
+    assert.equal(result.success, true, JSON.stringify(result.targets.flatMap(target => target.errors)));
+    assert.deepEqual(result.targets.map(target => `${target.deviceType}/${target.locale}`), ['iphone/en', 'iphone/ar']);
+  });
+
+  it('frames every screenshot', async () => {
+    for (const target of result.targets) {
+      assert.equal(target.framed.length, SLOT_COUNT);
+      for (let slot = 1; slot <= SLOT_COUNT; slot++) {
+        const framed = path.join(config.paths.framed, 'iphone', target.locale, `slot_${slot}`, 'framed.png');
+        assert.ok(target.framed.includes(framed), `${framed} was not written`);
+        const { width, height } = await sharp(framed).metadata();
+        // The frame adds a border around the screenshot
+        assert.ok(width! > SCREENSHOT_WIDTH && height! > SCREENSHOT_HEIGHT);
+      }
+    }
+  });
+
+  it('combines the slots side by side in reading order', async () => {
+    for (const target of result.targets) {
+      const { width, height } = await sharp(target.combined!).metadata();
+      assert.ok(width! > height!, 'the combined image is wider than tall');
+      for (let position = 0; position < SLOT_COUNT; position++) {
+        // The middle of each third shows one screenshot; right-to-left locales start from the right
+        const slot = target.locale === 'ar' ? SLOT_COUNT - position : position + 1;
+        const pixel = await readPixel(target.combined!, (position + 0.5) * width! / SLOT_COUNT, height! * 0.6);
+        assert.ok(isColor(pixel, SLOT_COLORS[slot - 1]), `${target.locale}: slot_${slot} is not in position ${position + 1}`);
+      }
+    }
+  });
+
+  it('splits every slot into every output size at its exact dimensions', async () => {
+    for (const target of result.targets) {
+      assert.equal(target.outputs.length, SLOT_COUNT * config.outputDevices.length);
+      for (const size of config.outputDevices) {
+        const files = await fs.readdir(path.join(config.paths.output, size.outputPath, target.locale));
+        assert.deepEqual(files.sort(), ['slot_1.png', 'slot_2.png', 'slot_3.png']);
+        for (const file of files) {
+          const metadata = await sharp(path.join(config.paths.output, size.outputPath, target.locale, file)).metadata();
+          assert.deepEqual([metadata.width, metadata.height], [size.width, size.height]);
+          assert.equal(metadata.hasAlpha, false);
+        }
+      }
+    }
+  });
+
+  it('puts each screenshot in its own slot', async () => {
+    for (const target of result.targets) {
+      for (const size of config.outputDevices) {
+        for (let slot = 1; slot <= SLOT_COUNT; slot++) {
+          const output = path.join(config.paths.output, size.outputPath, target.locale, `slot_${slot}.png`);
+          const pixel = await readPixel(output, size.width / 2, size.height * 0.6);
+          assert.ok(isColor(pixel, SLOT_COLORS[slot - 1]), `${target.locale} ${size.outputPath} slot_${slot} shows another screenshot`);
+        }
+      }
+    }
+  });
+
+  it('skips every stage on an unchanged rerun', async () => {
+    const rerun = await generate({ config, locales: LOCALES, deviceTypes: ['iphone'] });
+    assert.equal(rerun.success, true);
+    assert.deepEqual(rerun.cacheEvents.filter(event => event.rebuilt), []);
+  });
+});
+
+describe('a target without screenshots', () => {
+  const temp = createTempDir();
+  let result: GenerateResult;
+
+  before(async () => {
+    // Framed output left over from an earlier build, but no screenshots to frame
+    const framedDir = path.join(temp.dir, 'framed', 'iphone', 'en', 'slot_1');
+    await fs.mkdir(framedDir, { recursive: true });
+    await writeSolidImage(path.join(framedDir, 'framed.png'), 300, 600, SLOT_COLORS[0]);
+    await fs.mkdir(path.join(temp.dir, 'translations'), { recursive: true });
+    await fs.writeFile(path.join(temp.dir, 'translations', 'en.json'), JSON.stringify({ slot_1: 'Title 1' }));
+    await writeSolidImage(path.join(temp.dir, 'bg.png'), 400, 300, [128, 128, 128]);
+
+    const config = buildConfig({
+      paths: { screenshots: 'screenshots', translations: 'translations', background: 'bg.png', framed: 'framed', combined: 'combined', output: 'output' }
+    }, temp.dir);
+    result = await generate({ config, locales: ['en'], deviceTypes: ['iphone'], skipValidation: true });
+  });
+
+  after(temp.cleanup);
+
+  it('fails at the frame stage without combining the leftover framed screenshots', async () => {
+    const [target] = result.targets;
+    assert.equal(target.success, false);
+    assert.deepEqual(target.errors.map(error => error.stage), ['frame']);
+    assert.match(target.errors[0].message, /No screenshots found/);
+    await assert.rejects(fs.access(path.join(temp.dir, 'combined', 'iphone', 'en', 'combined.png')));
+  });
+});
+
+describe('a slot removed since the last build', () => {
+  const temp = createTempDir();
+  let config: ProjectConfig;
+  let result: GenerateResult;
+
+  before(async () => {
+    await fs.mkdir(path.join(temp.dir, 'translations'), { recursive: true });
+    await fs.writeFile(path.join(temp.dir, 'translations', 'en.json'), JSON.stringify({ slot_1: 'Title 1', slot_2: 'Title 2' }));
+    for (const slot of [1, 2]) {
+      const slotDir = path.join(temp.dir, 'screenshots', 'iphone', 'en', `slot_${slot}`);
+      await fs.mkdir(slotDir, { recursive: true });
+      await writeSolidImage(path.join(slotDir, 'screen.png'), SCREENSHOT_WIDTH, SCREENSHOT_HEIGHT, SLOT_COLORS[slot - 1]);
+    }
+    await writeSolidImage(path.join(temp.dir, 'bg.png'), 400, 300, [128, 128, 128]);
+
+    config = buildConfig({
+      paths: { screenshots: 'screenshots', translations: 'translations', background: 'bg.png', framed: 'framed', combined: 'combined', output: 'output' },
+      outputDevices: [{ display: 'iphone-6.9', orientation: 'portrait' }]
+    }, temp.dir);
+    assert.equal((await generate({ config, locales: ['en'], deviceTypes: ['iphone'] })).success, true);
+
+    // Drop slot_2 from the input; its framed screenshot is still there from the first build
+    await fs.rm(path.join(temp.dir, 'screenshots', 'iphone', 'en', 'slot_2'), { recursive: true });
+    result = await generate({ config, locales: ['en'], deviceTypes: ['iphone'] });
+  });
+
+  after(temp.cleanup);
+
+  it('removes the framed screenshot of the removed slot and combines the rest', async () => {
+    assert.deepEqual(result.targets[0].errors, []);
+    assert.equal(result.success, true);
+    await assert.rejects(fs.access(path.join(temp.dir, 'framed', 'iphone', 'en', 'slot_2')));
+    await fs.access(path.join(temp.dir, 'framed', 'iphone', 'en', 'slot_1', 'framed.png'));
+  });
+});
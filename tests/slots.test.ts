@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { resolveSlotCount } from '../shared/slots';
+import { createTempDir } from './helpers';
+
+describe('resolveSlotCount', () => {
+  const temp = createTempDir();
+  const paths = { screenshotsPath: path.join(temp.dir, 'screenshots'), translationsPath: path.join(temp.dir, 'translations') };
+
+  const createSlotFolders = async (deviceType: string, locale: string, slots: number[]) => {
+    for (const slot of slots) {
+      await fs.mkdir(path.join(paths.screenshotsPath, deviceType, locale, `slot_${slot}`), { recursive: true });
+    }
+  };
+
+  before(async () => {
+    // Six iPhone slots and five iPad slots, sharing one translations file with six titles
+    await createSlotFolders('iphone', 'en', [1, 2, 3, 4, 5, 6]);
+    await createSlotFolders('ipad', 'en', [1, 2, 3, 4, 5]);
+    await fs.mkdir(paths.translationsPath, { recursive: true });
+    const titles = Object.fromEntries([1, 2, 3, 4, 5, 6].map(slot => [`slot_${slot}`, `Title ${slot}`]));
+    await fs.writeFile(path.join(paths.translationsPath, 'en.json'), JSON.stringify(titles));
+
+    // Four iPad slots with a gap, and a locale whose translations stop at slot_2
+    await createSlotFolders('ipad', 'de', [1, 2, 4]);
+    await createSlotFolders('iphone', 'de', [1, 2, 3]);
+    await fs.writeFile(path.join(paths.translationsPath, 'de.json'), JSON.stringify({ slot_1: 'Eins', slot_2: 'Zwei', slot_3: 'Drei', slot_4: 'Vier' }));
+    await createSlotFolders('iphone', 'fr', [1, 2, 3]);
+    await fs.writeFile(path.join(paths.translationsPath, 'fr.json'), JSON.stringify({ slot_1: 'Un', slot_2: 'Deux' }));
+  });
+
+  after(temp.cleanup);
+
+  it('counts the slot folders of each device type against one translations file', async () => {
+    assert.equal(await resolveSlotCount('iphone', 'en', paths), 6);
+    assert.equal(await resolveSlotCount('ipad', 'en', paths), 5);
+  });
+
+  it('ignores translation keys beyond the slot folders', async () => {
+    assert.equal(await resolveSlotCount('iphone', 'de', paths), 3);
+  });
+
+  it('rejects a gap in the slot folders', async () => {
+    await assert.rejects(resolveSlotCount('ipad', 'de', paths), /missing slot folder\(s\) slot_3/);
+  });
+
+  it('rejects slots without a title', async () => {
+    await assert.rejects(resolveSlotCount('iphone', 'fr', paths), /missing translation key\(s\) slot_3/);
+  });
+});
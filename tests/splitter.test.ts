@@ -0,0 +1,156 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fitPanorama, getPanoramaFit, processDeviceConfig, splitScreenshots } from '../03_splitter/splitter';
+import { DeviceConfig, LayoutDirection, OutputSettings, defaultConfig, defaultOutputSettings } from '../shared/config';
+import { SLOT_COLORS, createStripes, createTempDir, isColor, readPixel, writeSolidImage } from './helpers';
+
+const temp = createTempDir();
+after(temp.cleanup);
+
+const device: DeviceConfig = { name: 'test', width: 100, height: 200, outputPath: 'test (100x200)', family: 'iphone' };
+
+describe('processDeviceConfig', () => {
+  const split = async (direction: LayoutDirection, stripeWidth: number, settings: Partial<OutputSettings> = {}) => {
+    const combined = await createStripes(SLOT_COLORS.slice(0, 3), stripeWidth, 200);
+    const metadata = await combined.metadata();
+    const outputBase = path.join(temp.dir, `${direction}-${stripeWidth}-${Object.values(settings).join('-')}`);
+    return processDeviceConfig(combined, metadata, device, outputBase, 'en', 3, direction, { ...defaultOutputSettings, ...settings });
+  };
+
+  it('writes one file per slot at the output size', async () => {
+    const outputs = await split('ltr', 100);
+    assert.deepEqual(outputs.map(output => path.basename(output)), ['slot_1.png', 'slot_2.png', 'slot_3.png']);
+    for (const output of outputs) {
+      const { width, height } = await sharp(output).metadata();
+      assert.deepEqual([width, height], [100, 200]);
+    }
+  });
+
+  it('numbers slots from the left edge in left-to-right layouts', async () => {
+    const outputs = await split('ltr', 100);
+    for (const [index, output] of outputs.entries()) {
+      assert.ok(isColor(await readPixel(output, 50, 100), SLOT_COLORS[index]), `slot_${index + 1} has the wrong colour`);
+    }
+  });
+
+  it('numbers slots from the right edge in right-to-left layouts', async () => {
+    const outputs = await split('rtl', 100);
+    for (const [index, output] of outputs.entries()) {
+      assert.ok(isColor(await readPixel(output, 50, 100), SLOT_COLORS[2 - index]), `slot_${index + 1} has the wrong colour`);
+    }
+  });
+
+  it('crops only the outer edges of the row when the slots are wider than the output', async () => {
+    // Three 250px slots cut into 100px outputs: the middle 300px of the 750px row is kept
+    const outputs = await split('ltr', 250);
+    for (const output of outputs) {
+      const { width, height } = await sharp(output).metadata();
+      assert.deepEqual([width, height], [100, 200]);
+    }
+    assert.ok(isColor(await readPixel(outputs[0], 0, 100), SLOT_COLORS[0]));
+    assert.ok(isColor(await readPixel(outputs[1], 50, 100), SLOT_COLORS[1]));
+    assert.ok(isColor(await readPixel(outputs[2], 99, 100), SLOT_COLORS[2]));
+  });
+
+  it('pads only the outer edges of the row when extending', async () => {
+    // Three 50px slots fitted into 100px outputs: 75px of padding either side of the 150px row
+    const outputs = await split('ltr', 50, { fit: 'extend', extendWith: '#000000' });
+    assert.deepEqual(await readPixel(outputs[0], 10, 100), [0, 0, 0]);
+    assert.ok(isColor(await readPixel(outputs[1], 50, 100), SLOT_COLORS[1]));
+    assert.deepEqual(await readPixel(outputs[2], 90, 100), [0, 0, 0]);
+  });
+
+  it('keeps the image continuous across every split line', async () => {
+    // A horizontal gradient with slots wider than the output, so the row is cropped
+    const width = 450;
+    const pixels = Buffer.alloc(width * 200 * 3);
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < 200; y++) {
+        pixels[(y * width + x) * 3] = Math.round(x * 255 / (width - 1));
+      }
+    }
+    const combined = sharp(pixels, { raw: { width, height: 200, channels: 3 } });
+    const outputs = await processDeviceConfig(combined, await combined.metadata(), device, path.join(temp.dir, 'gradient'), 'en', 3, 'ltr', defaultOutputSettings);
+    for (let index = 1; index < outputs.length; index++) {
+      const [left] = await readPixel(outputs[index - 1], 99, 100);
+      const [right] = await readPixel(outputs[index], 0, 100);
+      assert.ok(right - left >= 0 && right - left <= 2, `slot_${index} ends at ${left} but slot_${index + 1} starts at ${right}`);
+    }
+  });
+
+  it('writes JPEG files when the output format is jpeg', async () => {
+    const outputs = await split('ltr', 100, { format: 'jpeg' });
+    assert.deepEqual(outputs.map(output => path.basename(output)), ['slot_1.jpg', 'slot_2.jpg', 'slot_3.jpg']);
+    assert.equal((await sharp(outputs[0]).metadata()).format, 'jpeg');
+  });
+});
+
+describe('splitScreenshots', () => {
+  it('splits a combined image smaller than the output sizes', async () => {
+    // A single landscape slot of 300x200, scaled up to the output size
+    const combinedDir = path.join(temp.dir, 'small', 'combined', 'iphone', 'en');
+    await fs.mkdir(combinedDir, { recursive: true });
+    await writeSolidImage(path.join(combinedDir, 'combined.png'), 300, 200, SLOT_COLORS[0]);
+    const landscape: DeviceConfig = { ...device, width: 300, height: 150, outputPath: 'landscape (300x150)' };
+    const outputs = await splitScreenshots({
+      config: defaultConfig,
+      inputPath: path.join(temp.dir, 'small', 'combined'),
+      outputBasePath: path.join(temp.dir, 'small', 'output'),
+      deviceConfigs: [landscape],
+      orientation: 'landscape',
+      slotCount: 1
+    });
+    assert.deepEqual(outputs.map(output => path.basename(output)), ['slot_1.png']);
+    assert.ok(isColor(await readPixel(outputs[0], 150, 75), SLOT_COLORS[0]));
+  });
+});
+
+describe('fitPanorama', () => {
+  // A 100x200 slot: red on top, blue at the bottom
+  const createSlot = async () => {
+    const top = await sharp({ create: { width: 100, height: 100, channels: 3, background: { r: 255, g: 0, b: 0 } } }).png().toBuffer();
+    const buffer = await sharp({ create: { width: 100, height: 200, channels: 3, background: { r: 0, g: 0, b: 255 } } })
+      .composite([{ input: top, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+    return sharp(buffer);
+  };
+  const fit = async (width: number, height: number, overrides: Partial<OutputSettings>) => {
+    const settings = { ...defaultOutputSettings, ...overrides };
+    return fitPanorama(await createSlot(), getPanoramaFit(100, 200, 1, width, height, settings), width, height, settings).png().toBuffer();
+  };
+
+  it('crops the bottom when anchored to the top', async () => {
+    const output = await fit(100, 100, { fit: 'crop', anchor: 'top' });
+    assert.deepEqual(await readPixel(output, 50, 95), [255, 0, 0]);
+  });
+
+  it('crops the top when anchored to the bottom', async () => {
+    const output = await fit(100, 100, { fit: 'crop', anchor: 'bottom' });
+    assert.deepEqual(await readPixel(output, 50, 5), [0, 0, 255]);
+  });
+
+  it('crops both edges evenly when centred', async () => {
+    const output = await fit(100, 100, { fit: 'crop', anchor: 'center' });
+    assert.ok(isColor(await readPixel(output, 50, 5), [255, 0, 0]));
+    assert.ok(isColor(await readPixel(output, 50, 95), [0, 0, 255]));
+  });
+
+  it('pads the sides evenly with a colour when extending', async () => {
+    const output = await fit(200, 200, { fit: 'extend', anchor: 'top', extendWith: '#00ff00' });
+    const { width, height } = await sharp(output).metadata();
+    assert.deepEqual([width, height], [200, 200]);
+    assert.deepEqual(await readPixel(output, 10, 50), [0, 255, 0]);
+    assert.deepEqual(await readPixel(output, 190, 50), [0, 255, 0]);
+    assert.deepEqual(await readPixel(output, 100, 50), [255, 0, 0]);
+  });
+
+  it('pads below the slot when extending anchored to the top', async () => {
+    const output = await fit(50, 200, { fit: 'extend', anchor: 'top', extendWith: '#00ff00' });
+    assert.deepEqual(await readPixel(output, 25, 10), [255, 0, 0]);
+    assert.deepEqual(await readPixel(output, 25, 190), [0, 255, 0]);
+  });
+});
@@ -0,0 +1,423 @@
+import { existsSync, watch as watchPath, FSWatcher } from 'fs';
+import http from 'http';
+import path from 'path';
+import sharp from 'sharp';
+import { generate, printSummary } from './generate';
+import { getAvailableLocales } from './02_input_combined/combiner';
+import { getPanoramaFit } from './03_splitter/splitter';
+import { DEFAULT_CONFIG_FILE, DEVICE_TYPES, DeviceConfig, DeviceType, OutputSettings, ProjectConfig, getOrientation, getOutputDevices, loadConfig, resolveSettings, takeConfigArg } from './shared/config';
+import { getFontFiles } from './shared/fonts';
+import { resolveSlotCount } from './shared/slots';
+
+/**
+ * How long to wait after the last file change before rebuilding (ms)
+ */
+const REBUILD_DELAY = 300;
+
+const DEFAULT_PORT = 4173;
+
+/**
+ * Outline colours of the output sizes drawn on the gallery's combined images
+ */
+const OUTLINE_COLORS = ['#ff3b30', '#0a84ff', '#ffd60a', '#30d158', '#bf5af2', '#ff9f0a'];
+
+export interface WatchOptions {
+  /** Locales to build; defaults to every locale in the translations directory */
+  locales?: string[];
+  /** Device types to build; defaults to both iPhone and iPad */
+  deviceTypes?: DeviceType[];
+  /** Path of the config file; defaults to SCREENSHOTS_CONFIG, then screenshots.config.json */
+  configPath?: string;
+  /** Port of the preview server */
+  port?: number;
+}
+
+/**
+ * The locales and device types a batch of file changes affects. An undefined list means all of them.
+ */
+interface Rebuild {
+  locales?: Set<string>;
+  deviceTypes?: Set<DeviceType>;
+}
+
+/**
+ * Works out what a changed file affects: a screenshot only its device type and locale, a
+ * translations file its locale on every device, and anything else (config, background,
+ * fonts, decorations) everything. Returns undefined for files that don't affect the build.
+ */
+function classifyChange(filePath: string, config: ProjectConfig): Rebuild | undefined {
+  const inside = (dir: string) => {
+    const relative = path.relative(dir, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative) ? relative.split(path.sep) : undefined;
+  };
+
+  // Our own output must never trigger a rebuild
+  if ([config.paths.framed, config.paths.combined, config.paths.output, path.dirname(config.paths.cache)].some(dir => inside(dir))) {
+    return undefined;
+  }
+
+  const screenshotParts = inside(config.paths.screenshots);
+  if (screenshotParts) {
+    const [deviceType, locale] = screenshotParts;
+    return DEVICE_TYPES.includes(deviceType as DeviceType) && locale && screenshotParts.length > 2
+      ? { locales: new Set([locale]), deviceTypes: new Set([deviceType as DeviceType]) }
+      : {};
+  }
+
+  const translationParts = inside(config.paths.translations);
+  if (translationParts) {
+    return translationParts.length === 1 && translationParts[0].endsWith('.json')
+      ? { locales: new Set([path.basename(translationParts[0], '.json')]) }
+      : undefined;
+  }
+
+  return {};
+}
+
+/**
+ * Merges two pending rebuilds; "all" (undefined) wins over any list
+ */
+function mergeRebuilds(a: Rebuild, b: Rebuild): Rebuild {
+  return {
+    locales: a.locales && b.locales ? new Set([...a.locales, ...b.locales]) : undefined,
+    deviceTypes: a.deviceTypes && b.deviceTypes ? new Set([...a.deviceTypes, ...b.deviceTypes]) : undefined
+  };
+}
+
+/**
+ * The files and directories that feed the build: the input directories are watched
+ * recursively, single files through their directory
+ */
+function getWatchedPaths(config: ProjectConfig, configPath: string): { directories: string[]; files: string[] } {
+  const files = [configPath, config.paths.background, ...getFontFiles(config.fonts)];
+  for (const overrides of [config, ...Object.values(config.devices), ...Object.values(config.locales)]) {
+    files.push(...(overrides?.decorations ?? []).map(decoration => decoration.image));
+    if (overrides?.frame?.mockup) {
+      files.push(overrides.frame.mockup);
+    }
+  }
+  return {
+    directories: [config.paths.screenshots, config.paths.translations],
+    files: Array.from(new Set(files))
+  };
+}
+
+/**
+ * The part of the combined image (in its pixels) that ends up in one slot's output screenshot,
+ * following the splitter, which fits the whole combined image once and cuts it at multiples
+ * of the output width
+ */
+function getKeptArea(canvasWidth: number, canvasHeight: number, slotCount: number, position: number, device: DeviceConfig, settings: OutputSettings): { x: number; y: number; width: number; height: number } {
+  const fit = getPanoramaFit(canvasWidth, canvasHeight, slotCount, device.width, device.height, settings);
+  const toCanvas = (value: number, max: number) => Math.min(max, Math.max(0, value / fit.scale));
+  const x = toCanvas(position * device.width - fit.left, canvasWidth);
+  const y = toCanvas(-fit.top, canvasHeight);
+  return {
+    x,
+    y,
+    width: toCanvas((position + 1) * device.width - fit.left, canvasWidth) - x,
+    height: toCanvas(device.height - fit.top, canvasHeight) - y
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders one combined image with its split lines and, per output size, the area each slot keeps
+ */
+async function renderGalleryItem(config: ProjectConfig, deviceType: DeviceType, locale: string, version: number): Promise<string | undefined> {
+  const combinedPath = path.join(config.paths.combined, deviceType, locale, 'combined.png');
+  if (!existsSync(combinedPath)) {
+    return undefined;
+  }
+
+  const metadata = await sharp(combinedPath).metadata();
+  const width = metadata.width!;
+  const height = metadata.height!;
+  let slotCount: number;
+  try {
+    slotCount = await resolveSlotCount(deviceType, locale, { screenshotsPath: config.paths.screenshots, translationsPath: config.paths.translations });
+  } catch {
+    return undefined;
+  }
+
+  const slotWidth = width / slotCount;
+  const orientationSetting = resolveSettings(config, deviceType, locale).frame.orientation;
+  const orientation = orientationSetting !== 'auto' ? orientationSetting : getOrientation(slotWidth, height);
+  const devices = getOutputDevices(config, deviceType, orientation);
+
+  const shapes: string[] = [];
+  for (let slot = 1; slot < slotCount; slot++) {
+    shapes.push(`<line x1="${slot * slotWidth}" y1="0" x2="${slot * slotWidth}" y2="${height}" stroke="#ffffff" stroke-width="${width / 600}" stroke-dasharray="${width / 100}"/>`);
+  }
+  devices.forEach((device, index) => {
+    const color = OUTLINE_COLORS[index % OUTLINE_COLORS.length];
+    for (let position = 0; position < slotCount; position++) {
+      const area = getKeptArea(width, height, slotCount, position, device, config.output);
+      shapes.push(`<rect x="${area.x}" y="${area.y}" width="${area.width}" height="${area.height}" fill="none" stroke="${color}" stroke-width="${width / 400}"/>`);
+    }
+  });
+
+  const legend = devices
+    .map((device, index) => `<span style="color: ${OUTLINE_COLORS[index % OUTLINE_COLORS.length]}">■</span> ${escapeHtml(device.name)} (${device.width}x${device.height})`)
+    .join(' &nbsp; ');
+  const imageUrl = `/combined/${encodeURIComponent(deviceType)}/${encodeURIComponent(locale)}?v=${version}`;
+
+  return `
+    <section>
+      <h2>${escapeHtml(deviceType)}/${escapeHtml(locale)} <small>${width}x${height}, ${slotCount} slot(s)</small></h2>
+      <p>${legend || 'No output sizes for this orientation'}</p>
+      <div class="canvas">
+        <img src="${imageUrl}" alt="${escapeHtml(`${deviceType}/${locale}`)}">
+        <svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">${shapes.join('')}</svg>
+      </div>
+    </section>`;
+}
+
+/**
+ * Renders the gallery page: every combined image, refreshed whenever a rebuild finishes
+ */
+async function renderGallery(config: ProjectConfig, targets: Array<{ deviceType: DeviceType; locale: string }>, status: string, version: number): Promise<string> {
+  const items = (await Promise.all(targets.map(({ deviceType, locale }) => renderGalleryItem(config, deviceType, locale, version))))
+    .filter((item): item is string => item !== undefined);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Screenshot preview</title>
+  <style>
+    body { font-family: -apple-system, system-ui, sans-serif; background: #1c1c1e; color: #f2f2f7; margin: 24px; }
+    h2 small { color: #8e8e93; font-weight: normal; font-size: 14px; }
+    .status { color: #8e8e93; }
+    .canvas { position: relative; }
+    .canvas img { display: block; width: 100%; }
+    .canvas svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+  </style>
+</head>
+<body>
+  <h1>Screenshot preview</h1>
+  <p class="status">${escapeHtml(status)}</p>
+  ${items.join('\n') || '<p>No combined images yet.</p>'}
+  <script>new EventSource('/events').onmessage = () => location.reload();</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds the selected locales and device types, then watches their inputs and the config,
+ * rebuilding only what a change affects, while serving a gallery of the combined images
+ * that refreshes after every rebuild
+ */
+async function watch(options: WatchOptions = {}): Promise<void> {
+  const configPath = path.resolve(options.configPath || process.env.SCREENSHOTS_CONFIG || DEFAULT_CONFIG_FILE);
+  const port = options.port ?? DEFAULT_PORT;
+  let config = await loadConfig(options.configPath);
+
+  const clients = new Set<http.ServerResponse>();
+  let status = 'Starting...';
+  let version = Date.now();
+
+  const getTargets = async () => {
+    const locales = options.locales ?? await getAvailableLocales(config.paths.translations);
+    const deviceTypes = options.deviceTypes ?? DEVICE_TYPES;
+    return deviceTypes.flatMap(deviceType => locales.map(locale => ({ deviceType, locale })));
+  };
+
+  // Preview server: the gallery, the combined images, and an event stream that tells pages to reload
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', `http://localhost:${port}`);
+    try {
+      if (url.pathname === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(await renderGallery(config, await getTargets(), status, version));
+      } else if (url.pathname === '/events') {
+        response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+        response.write(': connected\n\n');
+        clients.add(response);
+        request.on('close', () => clients.delete(response));
+      } else if (url.pathname.startsWith('/combined/')) {
+        const [deviceType, locale] = url.pathname.split('/').slice(2).map(decodeURIComponent);
+        if (!DEVICE_TYPES.includes(deviceType as DeviceType) || !locale || locale.includes('/') || locale.includes('..')) {
+          response.writeHead(404).end();
+          return;
+        }
+        const image = await sharp(path.join(config.paths.combined, deviceType, locale, 'combined.png')).toBuffer();
+        response.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' });
+        response.end(image);
+      } else {
+        response.writeHead(404).end();
+      }
+    } catch (error) {
+      response.writeHead(500, { 'Content-Type': 'text/plain' });
+      response.end((error as Error).message);
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+  console.log(`👀 Preview: http://localhost:${port}`);
+
+  // One build at a time; changes that arrive during a build are rebuilt right after it
+  let pending: Rebuild | undefined = {};
+  let building = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const runBuilds = async () => {
+    if (building) {
+      return;
+    }
+    building = true;
+    while (pending) {
+      const rebuild = pending;
+      pending = undefined;
+      try {
+        config = await loadConfig(options.configPath);
+        updateWatchers();
+        const locales = (await getTargets())
+          .map(target => target.locale)
+          .filter(locale => !rebuild.locales || rebuild.locales.has(locale));
+        const deviceTypes = (options.deviceTypes ?? DEVICE_TYPES).filter(deviceType => !rebuild.deviceTypes || rebuild.deviceTypes.has(deviceType));
+        const result = await generate({ config, locales: Array.from(new Set(locales)), deviceTypes });
+        printSummary(result);
+        status = `${result.success ? 'Built' : 'Build failed'} at ${new Date().toLocaleTimeString()}`;
+      } catch (error) {
+        console.error('❌ Build failed:', (error as Error).message);
+        status = `Build failed at ${new Date().toLocaleTimeString()}: ${(error as Error).message}`;
+      }
+      version = Date.now();
+      clients.forEach(client => client.write('data: reload\n\n'));
+    }
+    building = false;
+    console.log('\n👀 Watching for changes...');
+  };
+
+  const onChange = (filePath: string) => {
+    const rebuild = classifyChange(filePath, config);
+    if (!rebuild) {
+      return;
+    }
+    pending = pending ? mergeRebuilds(pending, rebuild) : rebuild;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.log(`\n🔄 Changed: ${path.relative(process.cwd(), filePath)}`);
+      runBuilds();
+    }, REBUILD_DELAY);
+  };
+
+  // Directories are watched recursively; single files through their (non-recursive) directory.
+  // The watched paths come from the config, so the watchers are recreated whenever they change with it.
+  let watchers: FSWatcher[] = [];
+  let watchedPaths = '';
+  const updateWatchers = () => {
+    const { directories, files } = getWatchedPaths(config, configPath);
+    const key = JSON.stringify({ directories, files });
+    if (key === watchedPaths) {
+      return;
+    }
+    watchedPaths = key;
+    watchers.forEach(watcher => watcher.close());
+    watchers = [];
+
+    for (const directory of directories.filter(existsSync)) {
+      watchers.push(watchPath(directory, { recursive: true }, (_event, fileName) => {
+        if (fileName) {
+          onChange(path.join(directory, fileName.toString()));
+        }
+      }));
+    }
+    const fileDirectories = new Set(files.map(file => path.dirname(file)));
+    for (const directory of Array.from(fileDirectories).filter(existsSync)) {
+      watchers.push(watchPath(directory, (_event, fileName) => {
+        const filePath = fileName ? path.join(directory, fileName.toString()) : '';
+        if (files.includes(filePath)) {
+          onChange(filePath);
+        }
+      }));
+    }
+  };
+  updateWatchers();
+
+  process.once('SIGINT', () => {
+    watchers.forEach(watcher => watcher.close());
+    clients.forEach(client => client.end());
+    server.close();
+    process.exit(0);
+  });
+
+  await runBuilds();
+}
+
+/**
+ * Main execution function
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log('App Store Screenshot Watcher');
+    console.log('');
+    console.log('Builds, then rebuilds whatever a change to the screenshots, translations, background,');
+    console.log('fonts or config affects, and serves a preview gallery that refreshes after every build.');
+    console.log('');
+    console.log('Usage:');
+    console.log('  tsx watch.ts                                  # Watch all locales for iPhone and iPad');
+    console.log('  tsx watch.ts --locale <locale[,locale...]>    # Watch specific locale(s)');
+    console.log('  tsx watch.ts --device <iphone|ipad>           # Watch a single device type');
+    console.log(`  tsx watch.ts --port <port>                    # Serve the preview on another port (default ${DEFAULT_PORT})`);
+    console.log('  tsx watch.ts --config <path>                  # Use a specific project config file');
+    console.log('  tsx watch.ts --help                           # Show this help');
+    console.log('');
+    console.log('The gallery shows each combined image with the slot boundaries dashed and, per output');
+    console.log('size, the area of each slot that ends up in the split screenshot.');
+    return;
+  }
+
+  const options: WatchOptions = { configPath: takeConfigArg(args) };
+  for (let i = 0; i < args.length; i++) {
+    if (['--locale', '--device', '--port'].includes(args[i]) && !args[i + 1]) {
+      console.error(`❌ Missing value for ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    } else if (args[i] === '--locale') {
+      options.locales = args[i + 1].split(',');
+      i++;
+    } else if (args[i] === '--device') {
+      if (!DEVICE_TYPES.includes(args[i + 1] as DeviceType)) {
+        console.error(`❌ Invalid device type: ${args[i + 1]}. Must be 'iphone' or 'ipad'.`);
+        process.exit(1);
+      }
+      options.deviceTypes = [args[i + 1] as DeviceType];
+      i++;
+    } else if (args[i] === '--port') {
+      const port = Number(args[i + 1]);
+      if (!/^\d+$/.test(args[i + 1]) || port < 1 || port > 65535) {
+        console.error(`❌ Invalid port: ${args[i + 1]}. Must be a whole number from 1 to 65535.`);
+        process.exit(1);
+      }
+      options.port = port;
+      i++;
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}. Use --help for usage information.`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    await watch(options);
+  } catch (error) {
+    console.error('❌ Watch failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Export for use as a module
+export { watch };
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}